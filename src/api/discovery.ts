@@ -0,0 +1,96 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { KoreoError, toKoreoError } from "./errors.js";
+import {
+  KoreoBackend,
+  KoreoClient,
+  DiscoveredResource,
+} from "../types/client.js";
+import { CRDRef } from "../types/workflow.js";
+import { KubernetesResource } from "../types/managed-resource.js";
+
+// Discovery results are cached per backend, i.e. per cluster. Failed lookups
+// are evicted so that they can be retried.
+const discoveryCache = new WeakMap<
+  KoreoBackend,
+  Map<string, Promise<DiscoveredResource>>
+>();
+
+// resolveResource returns the plural and scope for a kind using API
+// discovery. A kind the cluster doesn't serve is reported as a NotFound
+// KoreoError.
+export const resolveResource = (
+  apiVersion: string,
+  kind: string,
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<DiscoveredResource> => {
+  let cache = discoveryCache.get(client.backend);
+  if (!cache) {
+    cache = new Map();
+    discoveryCache.set(client.backend, cache);
+  }
+
+  const key = `${apiVersion}/${kind}`;
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const resolved = discover(client.backend, apiVersion, kind);
+  cache.set(key, resolved);
+  resolved.catch(() => cache!.delete(key));
+  return resolved;
+};
+
+export const resolveCRDRef = (
+  crdRef: CRDRef,
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<DiscoveredResource> => {
+  return resolveResource(
+    `${crdRef.apiGroup}/${crdRef.version}`,
+    crdRef.kind,
+    client
+  );
+};
+
+// resolveKubernetesResource fills in the plural of a managed resource entry if
+// the managed-resources annotation omitted it.
+export const resolveKubernetesResource = async (
+  resource: KubernetesResource,
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<KubernetesResource> => {
+  if (resource.plural) {
+    return resource;
+  }
+  const { plural } = await resolveResource(
+    resource.apiVersion,
+    resource.kind,
+    client
+  );
+  return { ...resource, plural };
+};
+
+const discover = async (
+  backend: KoreoBackend,
+  apiVersion: string,
+  kind: string
+): Promise<DiscoveredResource> => {
+  let resource: DiscoveredResource | null;
+  try {
+    resource = await backend.discoverResource(apiVersion, kind);
+  } catch (err) {
+    const error = toKoreoError(err, { kind });
+    if (error.reason !== "NotFound") {
+      throw error;
+    }
+    resource = null;
+  }
+
+  if (!resource) {
+    throw new KoreoError(
+      "NotFound",
+      `NotFound: ${kind}: ${apiVersion} does not serve ${kind}`,
+      { resource: { kind } }
+    );
+  }
+  return resource;
+};
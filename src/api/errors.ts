@@ -0,0 +1,161 @@
+import { isRecord } from "./records.js";
+import { KoreoErrorReason, KoreoErrorResource } from "../types/errors.js";
+import { SchemaIssue } from "../types/schema.js";
+
+export class KoreoError extends Error {
+  readonly reason: KoreoErrorReason;
+  readonly statusCode?: number;
+  readonly resource?: KoreoErrorResource;
+  readonly cause?: unknown;
+  // For InvalidResource errors raised by schema validation.
+  readonly issues?: SchemaIssue[];
+
+  constructor(
+    reason: KoreoErrorReason,
+    message: string,
+    options: {
+      statusCode?: number;
+      resource?: KoreoErrorResource;
+      cause?: unknown;
+      issues?: SchemaIssue[];
+    } = {}
+  ) {
+    super(message);
+    this.name = "KoreoError";
+    this.reason = reason;
+    this.statusCode = options.statusCode;
+    this.resource = options.resource;
+    this.cause = options.cause;
+    this.issues = options.issues;
+  }
+}
+
+export const isKoreoError = (
+  err: unknown,
+  reason?: KoreoErrorReason
+): err is KoreoError => {
+  return err instanceof KoreoError && (!reason || err.reason === reason);
+};
+
+// ExpressionSyntaxError is thrown by parseExpression. position is the offset
+// into the expression where parsing failed.
+export class ExpressionSyntaxError extends Error {
+  readonly expression: string;
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = "ExpressionSyntaxError";
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+// ExpressionEvaluationError is thrown by evaluateExpression, e.g. for a
+// missing key or mismatched operand types. position is the offset of the
+// sub-expression that failed.
+export class ExpressionEvaluationError extends Error {
+  readonly expression: string;
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = "ExpressionEvaluationError";
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+// toKoreoError classifies an error thrown by a KoreoBackend. HTTP failures
+// carry a numeric status code while network failures (refused connections,
+// timeouts, aborted requests) carry a string code or none at all.
+export const toKoreoError = (
+  err: unknown,
+  resource?: KoreoErrorResource
+): KoreoError => {
+  if (isKoreoError(err)) {
+    return err;
+  }
+
+  // ApiException uses code while Watch errors use statusCode.
+  const code = errorField(err, "code") ?? errorField(err, "statusCode");
+  const statusCode = typeof code === "number" ? code : undefined;
+  const reason = statusCode
+    ? reasonForStatusCode(statusCode)
+    : reasonForNetworkError(err);
+
+  return new KoreoError(reason, describe(reason, resource, err), {
+    statusCode,
+    resource,
+    cause: err,
+  });
+};
+
+const reasonForStatusCode = (statusCode: number): KoreoErrorReason => {
+  if (statusCode === 404) {
+    return "NotFound";
+  }
+  if (statusCode === 401) {
+    return "Unauthorized";
+  }
+  if (statusCode === 403) {
+    return "Forbidden";
+  }
+  if (statusCode === 400 || statusCode === 422) {
+    return "InvalidResource";
+  }
+  if (statusCode === 429 || statusCode >= 500) {
+    return "Unavailable";
+  }
+  return "Unknown";
+};
+
+const reasonForNetworkError = (err: unknown): KoreoErrorReason => {
+  const name = errorField(err, "name");
+  if (
+    typeof errorField(err, "code") === "string" ||
+    name === "FetchError" ||
+    name === "AbortError"
+  ) {
+    return "Unavailable";
+  }
+  return "Unknown";
+};
+
+const describe = (
+  reason: KoreoErrorReason,
+  resource: KoreoErrorResource | undefined,
+  err: unknown
+): string => {
+  const target = resource
+    ? [
+        resource.kind,
+        [resource.namespace, resource.name].filter(Boolean).join("/"),
+      ]
+        .filter(Boolean)
+        .join(" ")
+    : "request";
+  return `${reason}: ${target}: ${detailOf(err)}`;
+};
+
+// ApiException messages embed the whole HTTP response, so prefer the message
+// from the Kubernetes Status body when there is one.
+const detailOf = (err: unknown): string => {
+  let body = errorField(err, "body");
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      body = undefined;
+    }
+  }
+  if (isRecord(body) && typeof body.message === "string" && body.message) {
+    return body.message;
+  }
+  return err instanceof Error ? err.message.split("\n")[0] : `${err}`;
+};
+
+// errorField reads a field from a thrown value, which may be anything.
+const errorField = (err: unknown, key: string): unknown => {
+  return isRecord(err) ? err[key] : undefined;
+};
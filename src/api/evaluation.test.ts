@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import { evaluateExpression, evaluateValueFunction } from "./evaluation.js";
+import { ExpressionEvaluationError } from "./errors.js";
+import { FunctionCondition, ValueFunction } from "../types/function.js";
+
+describe("evaluateExpression", () => {
+  it("keeps int and double literals apart", () => {
+    expect(evaluateExpression("=5 / 2")).toBe(2);
+    expect(evaluateExpression("=10.0 / 4.0")).toBe(2.5);
+    expect(evaluateExpression("=1.5 + 1.5")).toBe(3);
+    expect(evaluateExpression("=type(2.0 * 2.0)")).toBe("double");
+    expect(evaluateExpression("=-7 % 3")).toBe(-1);
+  });
+
+  it("rejects mixed int and double arithmetic", () => {
+    expect(() => evaluateExpression("=1.0 + 2")).toThrow(
+      "No such overload: double + int"
+    );
+    expect(() => evaluateExpression("=5.0 % 2.0")).toThrow("No such overload");
+  });
+
+  it("compares ints and doubles by value", () => {
+    expect(evaluateExpression("=1 == 1.0")).toBe(true);
+    expect(evaluateExpression("=2 < 2.5")).toBe(true);
+    expect(evaluateExpression("=[1.0, 2.0] == [1, 2]")).toBe(true);
+  });
+
+  it("converts between ints and doubles", () => {
+    expect(evaluateExpression("=int(7.9)")).toBe(7);
+    expect(evaluateExpression("=double(3) / 2.0")).toBe(1.5);
+    expect(evaluateExpression("=type(double(3))")).toBe("double");
+  });
+
+  it("treats integral variables as ints", () => {
+    const variables = { inputs: { count: 5, ratio: 0.5 } };
+    expect(evaluateExpression("=inputs.count / 2", variables)).toBe(2);
+    expect(evaluateExpression("=inputs.ratio * 3.0", variables)).toBe(1.5);
+    expect(() => evaluateExpression("=inputs.count * 0.5", variables)).toThrow(
+      "No such overload: int * double"
+    );
+  });
+
+  it("returns plain numbers inside lists and maps", () => {
+    expect(evaluateExpression('={"a": [1.5, 2.0]}')).toEqual({ a: [1.5, 2] });
+  });
+
+  it("evaluates macros", () => {
+    expect(evaluateExpression("=[1, 2, 3].map(x, x * 2)")).toEqual([2, 4, 6]);
+    expect(evaluateExpression("=[1, 2, 3].exists(x, x > 2)")).toBe(true);
+  });
+
+  it("rejects functions inherited from Object", () => {
+    expect(() => evaluateExpression("=toString()")).toThrow(
+      'Unsupported function "toString"'
+    );
+    expect(() =>
+      evaluateExpression("=inputs.constructor()", { inputs: {} })
+    ).toThrow('Unsupported function "constructor"');
+    expect(() => evaluateExpression("='a'.hasOwnProperty('length')")).toThrow(
+      ExpressionEvaluationError
+    );
+  });
+
+  it("reports invalid regular expressions", () => {
+    expect(evaluateExpression("='abc'.matches('^a.c$')")).toBe(true);
+    expect(() => evaluateExpression("='abc'.matches('(')")).toThrow(
+      ExpressionEvaluationError
+    );
+  });
+});
+
+const valueFunction = (
+  spec: Partial<ValueFunction["spec"]>
+): ValueFunction => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ValueFunction",
+  metadata: { name: "test", namespace: "test" },
+  spec,
+  status: {},
+});
+
+describe("evaluateValueFunction", () => {
+  it("evaluates the return value against inputs and locals", () => {
+    const func = valueFunction({
+      locals: { greeting: "='Hello ' + inputs.name", ten: "=10.0" },
+      return: {
+        message: "=locals.greeting",
+        quarter: "=locals.ten / 4.0",
+        nested: { type: "=type(locals.ten)" },
+        fixed: 1,
+      },
+    });
+
+    expect(evaluateValueFunction(func, { name: "koreo" })).toEqual({
+      type: "Ok",
+      value: {
+        message: "Hello koreo",
+        quarter: 2.5,
+        nested: { type: "double" },
+        fixed: 1,
+      },
+    });
+  });
+
+  it("returns an empty result without a return value", () => {
+    expect(evaluateValueFunction(valueFunction({}))).toEqual({
+      type: "Ok",
+      value: undefined,
+    });
+  });
+
+  it("only evaluates locals that are referenced", () => {
+    const func = valueFunction({
+      preconditions: [
+        { assert: "=has(inputs.items)", permFail: { message: "No items" } },
+      ],
+      locals: { first: "=inputs.items[0]" },
+      return: { first: "=locals.first" },
+    });
+
+    expect(evaluateValueFunction(func, {})).toEqual({
+      type: "PreconditionFailed",
+      outcome: "permFail",
+      index: 0,
+      assert: "=has(inputs.items)",
+      message: "No items",
+    });
+    expect(evaluateValueFunction(func, { items: ["a"] })).toEqual({
+      type: "Ok",
+      value: { first: "a" },
+    });
+  });
+
+  it.each<[string, FunctionCondition, object]>([
+    [
+      "skip",
+      { assert: "=false", skip: { message: "=inputs.reason" } },
+      { message: "not needed" },
+    ],
+    [
+      "depSkip",
+      { assert: "=false", depSkip: { message: "Waiting" } },
+      { message: "Waiting" },
+    ],
+    [
+      "permFail",
+      { assert: "=false", permFail: { message: "Broken" } },
+      { message: "Broken" },
+    ],
+    [
+      "retry",
+      { assert: "=false", retry: { message: "Not ready", delay: 30 } },
+      { message: "Not ready", delay: 30 },
+    ],
+    [
+      "defaultReturn",
+      { assert: "=false", defaultReturn: { value: "=1.0 + 1.0" } },
+      { value: { value: 2 } },
+    ],
+  ])("reports a failed precondition with %s", (outcome, condition, details) => {
+    const func = valueFunction({
+      preconditions: [{ assert: "=true", skip: { message: "" } }, condition],
+      return: { value: "unreachable" },
+    });
+
+    expect(evaluateValueFunction(func, { reason: "not needed" })).toEqual({
+      type: "PreconditionFailed",
+      outcome,
+      index: 1,
+      assert: "=false",
+      ...details,
+    });
+  });
+
+  it("reports where evaluation failed", () => {
+    const func = valueFunction({
+      preconditions: [{ assert: "=1", skip: { message: "" } }],
+    });
+    expect(evaluateValueFunction(func)).toEqual({
+      type: "EvaluationError",
+      message: "assert must evaluate to a bool, got int",
+      path: "spec.preconditions[0].assert",
+      expression: "=1",
+    });
+
+    const local = valueFunction({
+      locals: { missing: "=inputs.missing" },
+      return: { value: "=locals.missing" },
+    });
+    expect(evaluateValueFunction(local)).toMatchObject({
+      type: "EvaluationError",
+      path: "spec.locals.missing",
+      expression: "=inputs.missing",
+    });
+  });
+});
@@ -0,0 +1,837 @@
+import { ExpressionEvaluationError } from "./errors.js";
+import { MACROS, isExpression, parseExpression } from "./expressions.js";
+import { isRecord } from "./records.js";
+import {
+  getConditionOutcome,
+  getLocals,
+  getPreconditions,
+  getReturn,
+} from "./function-specs.js";
+import { ExpressionNode } from "../types/expression.js";
+import {
+  Function,
+  FunctionCondition,
+  ResourceFunction,
+  ValueFunction,
+} from "../types/function.js";
+import {
+  FunctionEvaluationResult,
+  FunctionPreconditionFailure,
+  ResourceTarget,
+  ResourceTargetResult,
+  ValueFunctionResult,
+} from "../types/evaluation.js";
+
+type Scope = Map<string, unknown>;
+
+// Doubles are boxed while an expression is evaluated so that they keep their
+// type even when their value is integral, e.g. 10.0. Plain numbers are ints,
+// or doubles if they came from a variable and aren't integral.
+class Double {
+  constructor(readonly value: number) {}
+}
+
+// evaluateExpression evaluates a Koreo expression against the given
+// variables, e.g. { inputs: {...} }. Maps are plain objects and lists are
+// arrays. Literals keep CEL's int and double types, so `5 / 2` is 2 and
+// `5.0 / 2.0` is 2.5, while numbers in variables are ints when integral.
+// Throws an ExpressionSyntaxError or ExpressionEvaluationError.
+export const evaluateExpression = (
+  expression: string,
+  variables: Record<string, unknown> = {}
+): unknown => {
+  return unboxDoubles(evaluateBoxed(expression, variables));
+};
+
+// evaluateValue evaluates every expression string within a value, leaving
+// other values as they are.
+export const evaluateValue = (
+  value: unknown,
+  variables: Record<string, unknown> = {}
+): unknown => {
+  return unboxDoubles(
+    mapExpressions(value, "", (expression) =>
+      evaluateBoxed(expression, variables)
+    )
+  );
+};
+
+// evaluateBoxed evaluates an expression, leaving doubles in the result boxed
+// so that they keep their type when the result is used in another expression.
+const evaluateBoxed = (
+  expression: string,
+  variables: Record<string, unknown>
+): unknown => {
+  const source = isExpression(expression)
+    ? expression.trim().slice(1)
+    : expression;
+  const node = parseExpression(source);
+  return evaluateNode(node, new Map(Object.entries(variables)), source);
+};
+
+// evaluateValueFunction evaluates a ValueFunction's preconditions and return
+// value against the given inputs. Locals are evaluated when first referenced
+// so that a precondition can guard a local that would otherwise fail.
+export const evaluateValueFunction = (
+  func: ValueFunction,
+  inputs: Record<string, unknown> = {}
+): ValueFunctionResult => {
+  return evaluateFunction(func, inputs, (variables) =>
+    unboxDoubles(evaluateField(getReturn(func), "spec.return", variables))
+  );
+};
+
+// evaluateResourceTarget evaluates a ResourceFunction's preconditions and
+// apiConfig against the given inputs to find the resource it would manage.
+export const evaluateResourceTarget = (
+  func: ResourceFunction,
+  inputs: Record<string, unknown> = {}
+): ResourceTargetResult => {
+  return evaluateFunction(func, inputs, (variables) => {
+    const config = unboxDoubles(
+      evaluateField(func.spec.apiConfig, "spec.apiConfig", variables)
+    ) as Record<string, unknown>;
+    ["apiVersion", "kind", "name"].forEach((field) => {
+      if (typeof config?.[field] !== "string") {
+        throw new FieldEvaluationError(
+          `${field} must be a string, got ${typeName(config?.[field])}`,
+          `spec.apiConfig.${field}`
+        );
+      }
+    });
+    const target: ResourceTarget = {
+      apiVersion: config.apiVersion as string,
+      kind: config.kind as string,
+      name: config.name as string,
+      owned: config.owned !== false,
+      readonly: config.readonly === true,
+    };
+    if (config.namespace !== undefined && config.namespace !== null) {
+      target.namespace = `${config.namespace}`;
+    }
+    if (typeof config.plural === "string") {
+      target.plural = config.plural;
+    }
+    return target;
+  });
+};
+
+const evaluateFunction = <T>(
+  func: Function,
+  inputs: Record<string, unknown>,
+  evaluateResult: (variables: Record<string, unknown>) => T
+): FunctionEvaluationResult<T> => {
+  const variables = {
+    inputs,
+    locals: createLocals(getLocals(func), inputs),
+  };
+  try {
+    const preconditions = getPreconditions(func);
+    for (let index = 0; index < preconditions.length; index++) {
+      const condition = preconditions[index];
+      const path = `spec.preconditions[${index}]`;
+      const passed = evaluateField(
+        condition.assert,
+        `${path}.assert`,
+        variables
+      );
+      if (typeof passed !== "boolean") {
+        throw new FieldEvaluationError(
+          `assert must evaluate to a bool, got ${typeName(passed)}`,
+          `${path}.assert`,
+          condition.assert
+        );
+      }
+      if (!passed) {
+        return preconditionFailure(condition, index, path, variables);
+      }
+    }
+    return { type: "Ok", value: evaluateResult(variables) };
+  } catch (err) {
+    if (err instanceof FieldEvaluationError) {
+      return {
+        type: "EvaluationError",
+        message: err.message,
+        path: err.path,
+        expression: err.expression,
+      };
+    }
+    throw err;
+  }
+};
+
+// FieldEvaluationError records which field of a function failed to evaluate.
+// It passes through enclosing expressions unchanged so that a failing local
+// is reported at the local rather than where it was referenced.
+class FieldEvaluationError extends Error {
+  readonly path: string;
+  readonly expression?: string;
+
+  constructor(message: string, path: string, expression?: string) {
+    super(message);
+    this.name = "FieldEvaluationError";
+    this.path = path;
+    this.expression = expression;
+  }
+}
+
+const preconditionFailure = (
+  condition: FunctionCondition,
+  index: number,
+  path: string,
+  variables: Record<string, unknown>
+): FunctionPreconditionFailure => {
+  const outcome = getConditionOutcome(condition);
+  if (!outcome) {
+    throw new FieldEvaluationError(
+      "Precondition has no outcome",
+      path,
+      condition.assert
+    );
+  }
+  const failure: FunctionPreconditionFailure = {
+    type: "PreconditionFailed",
+    outcome,
+    index,
+    assert: condition.assert,
+  };
+  if ("defaultReturn" in condition) {
+    failure.value = unboxDoubles(
+      evaluateField(condition.defaultReturn, `${path}.defaultReturn`, variables)
+    );
+    return failure;
+  }
+  const details =
+    "retry" in condition
+      ? condition.retry
+      : "skip" in condition
+      ? condition.skip
+      : "depSkip" in condition
+      ? condition.depSkip
+      : condition.permFail;
+  const message = unboxDoubles(
+    evaluateField(details?.message, `${path}.${outcome}.message`, variables)
+  );
+  if (message !== undefined) {
+    failure.message = `${message}`;
+  }
+  if ("retry" in condition) {
+    failure.delay = condition.retry.delay;
+  }
+  return failure;
+};
+
+// Locals are exposed as getters that evaluate, and then cache, each value on
+// first access. Cached values stay boxed so that e.g. a local of 10.0 is still
+// a double where it's referenced.
+const createLocals = (
+  locals: Record<string, unknown>,
+  inputs: Record<string, unknown>
+): Record<string, unknown> => {
+  const evaluated = new Map<string, unknown>();
+  const evaluating = new Set<string>();
+  const result: Record<string, unknown> = {};
+  const variables = { inputs, locals: result };
+
+  Object.entries(locals).forEach(([name, value]) => {
+    Object.defineProperty(result, name, {
+      enumerable: true,
+      get: () => {
+        if (evaluated.has(name)) {
+          return evaluated.get(name);
+        }
+        const path = `spec.locals.${name}`;
+        if (evaluating.has(name)) {
+          throw new FieldEvaluationError(
+            `Local "${name}" references itself`,
+            path
+          );
+        }
+        evaluating.add(name);
+        try {
+          evaluated.set(name, evaluateField(value, path, variables));
+        } finally {
+          evaluating.delete(name);
+        }
+        return evaluated.get(name);
+      },
+    });
+  });
+  return result;
+};
+
+// evaluateField evaluates the expressions within a function field, reporting
+// failures at the path of the failing expression. Doubles stay boxed.
+const evaluateField = (
+  value: unknown,
+  path: string,
+  variables: Record<string, unknown>
+): unknown => {
+  return mapExpressions(value, path, (expression, expressionPath) => {
+    try {
+      return evaluateBoxed(expression, variables);
+    } catch (err) {
+      if (err instanceof FieldEvaluationError) {
+        throw err;
+      }
+      throw new FieldEvaluationError(
+        err instanceof Error ? err.message : `${err}`,
+        expressionPath,
+        expression
+      );
+    }
+  });
+};
+
+// mapExpressions replaces every expression string within a value, leaving
+// other values as they are. path locates each expression, e.g. "spec.return.a".
+const mapExpressions = (
+  value: unknown,
+  path: string,
+  evaluate: (expression: string, path: string) => unknown
+): unknown => {
+  if (isExpression(value)) {
+    return evaluate(value, path);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      mapExpressions(item, `${path}[${index}]`, evaluate)
+    );
+  }
+  if (isMap(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        mapExpressions(item, path ? `${path}.${key}` : key, evaluate),
+      ])
+    );
+  }
+  return value;
+};
+
+const evaluateNode = (
+  node: ExpressionNode,
+  scope: Scope,
+  source: string
+): unknown => {
+  const evaluate = (child: ExpressionNode, childScope: Scope = scope) =>
+    evaluateNode(child, childScope, source);
+
+  const fail = (message: string, at: ExpressionNode = node): never => {
+    throw new ExpressionEvaluationError(message, source, at.start);
+  };
+
+  switch (node.type) {
+    case "Literal":
+      return node.kind === "double"
+        ? new Double(node.value as number)
+        : node.value;
+    case "Identifier":
+      if (!scope.has(node.name)) {
+        fail(`Undeclared reference to "${node.name}"`);
+      }
+      return scope.get(node.name);
+    case "Member":
+      return selectField(evaluate(node.object), node.property, fail);
+    case "Index": {
+      const object = evaluate(node.object);
+      const index = evaluate(node.index);
+      if (Array.isArray(object)) {
+        if (!isInt(index)) {
+          fail(`List index must be an int, got ${typeName(index)}`, node.index);
+        }
+        const position = index as number;
+        if (position < 0 || position >= object.length) {
+          fail(`Index ${position} out of range`, node.index);
+        }
+        return object[position];
+      }
+      if (isMap(object)) {
+        return selectField(object, `${index}`, fail);
+      }
+      return fail(`Cannot index ${typeName(object)}`);
+    }
+    case "Unary": {
+      const operand = evaluate(node.operand);
+      if (node.operator === "!") {
+        return typeof operand === "boolean"
+          ? !operand
+          : fail(`No such overload: !${typeName(operand)}`);
+      }
+      if (operand instanceof Double) {
+        return new Double(-operand.value);
+      }
+      return typeof operand === "number"
+        ? -operand
+        : fail(`No such overload: -${typeName(operand)}`);
+    }
+    case "Binary":
+      if (node.operator === "&&" || node.operator === "||") {
+        return evaluateLogical(
+          node.operator,
+          node.left,
+          node.right,
+          evaluate,
+          fail
+        );
+      }
+      return evaluateBinary(
+        node.operator,
+        evaluate(node.left),
+        evaluate(node.right),
+        fail
+      );
+    case "Conditional": {
+      const test = evaluate(node.test);
+      if (typeof test !== "boolean") {
+        fail(`Condition must be a bool, got ${typeName(test)}`, node.test);
+      }
+      return test ? evaluate(node.consequent) : evaluate(node.alternate);
+    }
+    case "List":
+      return node.elements.map((element) => evaluate(element));
+    case "Map":
+      return Object.fromEntries(
+        node.entries.map(({ key, value }) => {
+          const evaluatedKey = evaluate(key);
+          if (!["string", "number", "boolean"].includes(typeof evaluatedKey)) {
+            fail(`Invalid map key type ${typeName(evaluatedKey)}`, key);
+          }
+          return [`${evaluatedKey}`, evaluate(value)];
+        })
+      );
+    case "Call":
+      return evaluateCall(node, scope, evaluate, fail);
+  }
+};
+
+// && and || absorb an error on one side when the other side decides the
+// result, as in CEL.
+const evaluateLogical = (
+  operator: "&&" | "||",
+  left: ExpressionNode,
+  right: ExpressionNode,
+  evaluate: (node: ExpressionNode) => unknown,
+  fail: (message: string, at?: ExpressionNode) => never
+): boolean => {
+  const decisive = operator === "||";
+  const evaluateBool = (node: ExpressionNode): boolean => {
+    const value = evaluate(node);
+    return typeof value === "boolean"
+      ? value
+      : fail(`No such overload: ${operator} on ${typeName(value)}`, node);
+  };
+
+  let leftValue: boolean;
+  try {
+    leftValue = evaluateBool(left);
+  } catch (err) {
+    if (evaluateBool(right) === decisive) {
+      return decisive;
+    }
+    throw err;
+  }
+  return leftValue === decisive ? decisive : evaluateBool(right);
+};
+
+const evaluateBinary = (
+  operator: string,
+  left: unknown,
+  right: unknown,
+  fail: (message: string) => never
+): unknown => {
+  const noOverload = () =>
+    fail(`No such overload: ${typeName(left)} ${operator} ${typeName(right)}`);
+
+  switch (operator) {
+    case "==":
+      return isEqual(left, right);
+    case "!=":
+      return !isEqual(left, right);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      // Ints and doubles compare by value, as in CEL.
+      const [a, b] =
+        isNumber(left) && isNumber(right)
+          ? [numberValue(left), numberValue(right)]
+          : [left, right];
+      if (
+        typeof a !== typeof b ||
+        !["number", "string", "boolean"].includes(typeof a)
+      ) {
+        return noOverload();
+      }
+      const x = a as number | string | boolean;
+      const y = b as number | string | boolean;
+      return operator === "<"
+        ? x < y
+        : operator === "<="
+        ? x <= y
+        : operator === ">"
+        ? x > y
+        : x >= y;
+    }
+    case "in":
+      if (Array.isArray(right)) {
+        return right.some((item) => isEqual(item, left));
+      }
+      if (isMap(right)) {
+        return Object.prototype.hasOwnProperty.call(right, `${left}`);
+      }
+      return noOverload();
+    case "+":
+      if (typeof left === "string" && typeof right === "string") {
+        return left + right;
+      }
+      if (Array.isArray(left) && Array.isArray(right)) {
+        return [...left, ...right];
+      }
+      return evaluateArithmetic(operator, left, right, fail) ?? noOverload();
+    case "-":
+    case "*":
+    case "/":
+    case "%":
+      return evaluateArithmetic(operator, left, right, fail) ?? noOverload();
+  }
+  return noOverload();
+};
+
+// CEL has no implicit conversions, so both operands must be ints or both
+// doubles. Returns undefined if there's no such overload.
+const evaluateArithmetic = (
+  operator: string,
+  left: unknown,
+  right: unknown,
+  fail: (message: string) => never
+): unknown => {
+  if (isInt(left) && isInt(right)) {
+    const a = left as number;
+    const b = right as number;
+    if ((operator === "/" || operator === "%") && b === 0) {
+      return fail(operator === "/" ? "Division by zero" : "Modulus by zero");
+    }
+    return operator === "+"
+      ? a + b
+      : operator === "-"
+      ? a - b
+      : operator === "*"
+      ? a * b
+      : operator === "/"
+      ? Math.trunc(a / b)
+      : a % b;
+  }
+  if (isDouble(left) && isDouble(right) && operator !== "%") {
+    const a = numberValue(left);
+    const b = numberValue(right);
+    return new Double(
+      operator === "+"
+        ? a + b
+        : operator === "-"
+        ? a - b
+        : operator === "*"
+        ? a * b
+        : a / b
+    );
+  }
+  return undefined;
+};
+
+const evaluateCall = (
+  node: Extract<ExpressionNode, { type: "Call" }>,
+  scope: Scope,
+  evaluate: (node: ExpressionNode, scope?: Scope) => unknown,
+  fail: (message: string, at?: ExpressionNode) => never
+): unknown => {
+  const { name, args, target } = node;
+  const [variable, ...rest] = args;
+
+  // has(a.b) tests for a field without reading it.
+  if (!target && name === "has") {
+    const [field] = args;
+    if (args.length !== 1 || field.type !== "Member") {
+      return fail("has() requires a field selection, e.g. has(a.b)");
+    }
+    const object = evaluate(field.object);
+    return isMap(object)
+      ? Object.prototype.hasOwnProperty.call(object, field.property)
+      : fail(`Cannot select a field from ${typeName(object)}`);
+  }
+
+  if (
+    target?.type === "Identifier" &&
+    target.name === "cel" &&
+    name === "bind" &&
+    variable?.type === "Identifier" &&
+    rest.length === 2
+  ) {
+    const bound = new Map(scope).set(variable.name, evaluate(rest[0]));
+    return evaluate(rest[1], bound);
+  }
+
+  if (
+    target &&
+    MACROS.includes(name) &&
+    variable?.type === "Identifier" &&
+    rest.length > 0
+  ) {
+    return evaluateMacro(
+      name,
+      evaluate(target),
+      variable.name,
+      rest,
+      scope,
+      evaluate,
+      fail
+    );
+  }
+
+  const receiver = target ? [evaluate(target)] : [];
+  const values = [...receiver, ...args.map((arg) => evaluate(arg))];
+  if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+    return fail(`Unsupported function "${name}"`);
+  }
+  return FUNCTIONS[name](values, fail);
+};
+
+const evaluateMacro = (
+  name: string,
+  target: unknown,
+  variable: string,
+  args: ExpressionNode[],
+  scope: Scope,
+  evaluate: (node: ExpressionNode, scope?: Scope) => unknown,
+  fail: (message: string, at?: ExpressionNode) => never
+): unknown => {
+  // Macros over a map iterate over its keys.
+  const items = Array.isArray(target)
+    ? target
+    : isMap(target)
+    ? Object.keys(target)
+    : fail(`Cannot apply ${name}() to ${typeName(target)}`);
+
+  const apply = (item: unknown, node: ExpressionNode) =>
+    evaluate(node, new Map(scope).set(variable, item));
+  const test = (item: unknown, node: ExpressionNode): boolean => {
+    const result = apply(item, node);
+    return typeof result === "boolean"
+      ? result
+      : fail(`${name}() predicate must be a bool, got ${typeName(result)}`);
+  };
+
+  const [predicate, transform] = args;
+  switch (name) {
+    case "all":
+      return items.every((item) => test(item, predicate));
+    case "exists":
+      return items.some((item) => test(item, predicate));
+    case "exists_one":
+      return items.filter((item) => test(item, predicate)).length === 1;
+    case "filter":
+      return items.filter((item) => test(item, predicate));
+    case "map":
+      return transform
+        ? items
+            .filter((item) => test(item, predicate))
+            .map((item) => apply(item, transform))
+        : items.map((item) => apply(item, predicate));
+  }
+  return fail(`Unsupported macro "${name}"`);
+};
+
+type Fail = (message: string) => never;
+
+// Functions receive the method target, if any, as their first argument.
+const FUNCTIONS: Record<string, (args: unknown[], fail: Fail) => unknown> = {
+  size: ([value], fail) =>
+    typeof value === "string"
+      ? [...value].length
+      : Array.isArray(value)
+      ? value.length
+      : isMap(value)
+      ? Object.keys(value).length
+      : fail(`No such overload: size(${typeName(value)})`),
+  contains: (args, fail) =>
+    stringArgs("contains", args, 2, fail)[0].includes(args[1] as string),
+  startsWith: (args, fail) =>
+    stringArgs("startsWith", args, 2, fail)[0].startsWith(args[1] as string),
+  endsWith: (args, fail) =>
+    stringArgs("endsWith", args, 2, fail)[0].endsWith(args[1] as string),
+  matches: (args, fail) => {
+    const [value, pattern] = stringArgs("matches", args, 2, fail);
+    let regExp: RegExp;
+    try {
+      regExp = new RegExp(pattern);
+    } catch {
+      return fail(`Invalid regular expression "${pattern}"`);
+    }
+    return regExp.test(value);
+  },
+  lowerAscii: (args, fail) =>
+    stringArgs("lowerAscii", args, 1, fail)[0].toLowerCase(),
+  upperAscii: (args, fail) =>
+    stringArgs("upperAscii", args, 1, fail)[0].toUpperCase(),
+  trim: (args, fail) => stringArgs("trim", args, 1, fail)[0].trim(),
+  split: (args, fail) => {
+    const [value, separator] = stringArgs("split", args, 2, fail);
+    return value.split(separator);
+  },
+  replace: (args, fail) => {
+    const [value, search, replacement] = stringArgs("replace", args, 3, fail);
+    return value.split(search).join(replacement);
+  },
+  indexOf: (args, fail) => {
+    const [value, search] = stringArgs("indexOf", args, 2, fail);
+    return value.indexOf(search);
+  },
+  substring: ([value, start, end], fail) =>
+    typeof value === "string" &&
+    isInt(start) &&
+    (end === undefined || isInt(end))
+      ? value.substring(start as number, end as number | undefined)
+      : fail("No such overload: substring"),
+  join: ([list, separator = ""], fail) =>
+    Array.isArray(list) &&
+    list.every((item) => typeof item === "string") &&
+    typeof separator === "string"
+      ? list.join(separator)
+      : fail("No such overload: join"),
+  int: ([value], fail) => {
+    if (isNumber(value)) {
+      return Math.trunc(numberValue(value));
+    }
+    if (typeof value === "string" && /^[+-]?\d+$/.test(value.trim())) {
+      return Number(value);
+    }
+    return fail(`Cannot convert ${typeName(value)} to int`);
+  },
+  uint: ([value], fail) => {
+    const result = FUNCTIONS.int([value], fail) as number;
+    return result >= 0 ? result : fail(`Cannot convert ${value} to uint`);
+  },
+  double: ([value], fail) => {
+    if (isNumber(value)) {
+      return new Double(numberValue(value));
+    }
+    if (typeof value === "string" && value.trim() && !isNaN(Number(value))) {
+      return new Double(Number(value));
+    }
+    return fail(`Cannot convert ${typeName(value)} to double`);
+  },
+  string: ([value], fail) =>
+    value instanceof Double
+      ? `${value.value}`
+      : ["string", "number", "boolean"].includes(typeof value)
+      ? `${value}`
+      : fail(`Cannot convert ${typeName(value)} to string`),
+  bool: ([value], fail) => {
+    if (typeof value === "boolean") {
+      return value;
+    }
+    if (value === "true" || value === "false") {
+      return value === "true";
+    }
+    return fail(`Cannot convert ${typeName(value)} to bool`);
+  },
+  dyn: ([value]) => value,
+  type: ([value]) => typeName(value),
+};
+
+const stringArgs = (
+  name: string,
+  args: unknown[],
+  count: number,
+  fail: Fail
+): string[] => {
+  if (args.length !== count || !args.every((arg) => typeof arg === "string")) {
+    return fail(`No such overload: ${name}(${args.map(typeName).join(", ")})`);
+  }
+  return args as string[];
+};
+
+const selectField = (object: unknown, field: string, fail: Fail): unknown => {
+  if (!isMap(object)) {
+    return fail(`Cannot select field "${field}" from ${typeName(object)}`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(object, field)) {
+    return fail(`No such key: ${field}`);
+  }
+  return object[field];
+};
+
+const isMap = (value: unknown): value is Record<string, unknown> => {
+  return isRecord(value) && !(value instanceof Double);
+};
+
+const isInt = (value: unknown): boolean => {
+  return typeof value === "number" && Number.isInteger(value);
+};
+
+const isDouble = (value: unknown): value is number | Double => {
+  return (
+    value instanceof Double ||
+    (typeof value === "number" && !Number.isInteger(value))
+  );
+};
+
+const isNumber = (value: unknown): value is number | Double => {
+  return typeof value === "number" || value instanceof Double;
+};
+
+const numberValue = (value: number | Double): number => {
+  return value instanceof Double ? value.value : value;
+};
+
+// unboxDoubles turns a result back into plain JSON values.
+const unboxDoubles = (value: unknown): unknown => {
+  if (value instanceof Double) {
+    return value.value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(unboxDoubles);
+  }
+  if (isMap(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, unboxDoubles(item)])
+    );
+  }
+  return value;
+};
+
+const typeName = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "null_type";
+  }
+  if (Array.isArray(value)) {
+    return "list";
+  }
+  if (isNumber(value)) {
+    return isInt(value) ? "int" : "double";
+  }
+  if (typeof value === "boolean") {
+    return "bool";
+  }
+  return typeof value === "object" ? "map" : typeof value;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (isNumber(a) && isNumber(b)) {
+    return numberValue(a) === numberValue(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isMap(a) && isMap(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          isEqual(a[key], b[key])
+      )
+    );
+  }
+  return a === b;
+};
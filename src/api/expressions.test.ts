@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { getReferences, parseExpression } from "./expressions.js";
+import { ExpressionSyntaxError } from "./errors.js";
+
+describe("parseExpression", () => {
+  it("parses index access with positions", () => {
+    expect(parseExpression("=steps['my-step'].name")).toEqual({
+      type: "Member",
+      object: {
+        type: "Index",
+        object: { type: "Identifier", name: "steps", start: 0, end: 5 },
+        index: {
+          type: "Literal",
+          kind: "string",
+          value: "my-step",
+          start: 6,
+          end: 15,
+        },
+        start: 0,
+        end: 16,
+      },
+      property: "name",
+      start: 0,
+      end: 21,
+    });
+  });
+
+  it("throws an ExpressionSyntaxError for invalid expressions", () => {
+    expect(() => parseExpression("=inputs.")).toThrow(ExpressionSyntaxError);
+    expect(() => parseExpression("=(inputs.a")).toThrow(
+      'Expected ")" but found end of expression at position 9 in "(inputs.a"'
+    );
+    expect(() => parseExpression("='unterminated")).toThrow(
+      ExpressionSyntaxError
+    );
+    expect(() => parseExpression("=inputs.a inputs.b")).toThrow(
+      ExpressionSyntaxError
+    );
+  });
+});
+
+describe("getReferences", () => {
+  it("reads index access with literal keys as a path", () => {
+    expect(getReferences("=steps['my-step'].items[0] + steps.other")).toEqual([
+      { root: "steps", path: ["my-step", "items", "0"] },
+      { root: "steps", path: ["other"] },
+    ]);
+  });
+
+  it("stops the path at a computed key", () => {
+    expect(getReferences("=steps[inputs.label].name")).toEqual([
+      { root: "steps", path: [] },
+      { root: "inputs", path: ["label"] },
+    ]);
+  });
+
+  it("ignores references inside string literals", () => {
+    expect(getReferences("='steps.config' + \"steps.other\"")).toEqual([]);
+  });
+
+  it("excludes variables bound by macros", () => {
+    expect(
+      getReferences(
+        "=inputs.items.map(item, item.name + steps.a.suffix).filter(name, name != '') " +
+          "+ (steps.b.list.exists(x, x == inputs.value) ? [] : [item])"
+      )
+    ).toEqual([
+      { root: "inputs", path: ["items"] },
+      { root: "steps", path: ["a", "suffix"] },
+      { root: "steps", path: ["b", "list"] },
+      { root: "inputs", path: ["value"] },
+      { root: "item", path: [] },
+    ]);
+  });
+
+  it("deduplicates references", () => {
+    expect(getReferences("=inputs.a + inputs.a + inputs")).toEqual([
+      { root: "inputs", path: ["a"] },
+      { root: "inputs", path: [] },
+    ]);
+  });
+});
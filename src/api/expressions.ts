@@ -0,0 +1,617 @@
+import { ExpressionSyntaxError } from "./errors.js";
+import {
+  BinaryOperator,
+  ExpressionNode,
+  ExpressionReference,
+  LiteralKind,
+} from "../types/expression.js";
+
+type TokenType = LiteralKind | "identifier" | "punctuator" | "eof";
+
+type Token = {
+  type: TokenType;
+  text: string;
+  value?: string | number;
+  start: number;
+  end: number;
+};
+
+// Longest first so that e.g. "<=" isn't read as "<".
+const PUNCTUATORS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "?",
+  ":",
+  ".",
+  ",",
+  "[",
+  "]",
+  "(",
+  ")",
+  "{",
+  "}",
+];
+
+const ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+  "`": "`",
+  "?": "?",
+};
+
+// Macros whose first argument declares a variable scoped to the remaining
+// arguments, e.g. `items.map(item, item.name)`.
+export const MACROS = ["all", "exists", "exists_one", "map", "filter"];
+
+// Binary operators from lowest to highest precedence.
+const PRECEDENCE: BinaryOperator[][] = [
+  ["||"],
+  ["&&"],
+  ["==", "!=", "<", "<=", ">", ">=", "in"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+export const isExpression = (value: unknown): value is string => {
+  return typeof value === "string" && value.trim().startsWith("=");
+};
+
+// parseExpression parses a Koreo expression into an AST. The leading "=" is
+// optional. Throws an ExpressionSyntaxError if the expression is invalid.
+export const parseExpression = (expression: string): ExpressionNode => {
+  const source = isExpression(expression)
+    ? expression.trim().slice(1)
+    : expression;
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = (): Token => tokens[current];
+
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new ExpressionSyntaxError(message, source, token.start);
+  };
+
+  const isPunctuator = (text: string, token: Token = peek()): boolean => {
+    return token.type === "punctuator" && token.text === text;
+  };
+
+  const isOperator = (operator: string, token: Token = peek()): boolean => {
+    return operator === "in"
+      ? token.type === "identifier" && token.text === "in"
+      : isPunctuator(operator, token);
+  };
+
+  const expect = (text: string): Token => {
+    if (!isPunctuator(text)) {
+      fail(`Expected "${text}" but found ${describeToken(peek())}`);
+    }
+    return tokens[current++];
+  };
+
+  const expectIdentifier = (): Token => {
+    const token = peek();
+    if (token.type !== "identifier") {
+      fail(`Expected an identifier but found ${describeToken(token)}`);
+    }
+    current++;
+    return token;
+  };
+
+  // Parses comma separated items up to the closing punctuator, allowing a
+  // trailing comma.
+  const parseList = <T>(close: string, parseItem: () => T): T[] => {
+    const items: T[] = [];
+    while (!isPunctuator(close)) {
+      items.push(parseItem());
+      if (!isPunctuator(close)) {
+        expect(",");
+      }
+    }
+    expect(close);
+    return items;
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseBinary(0);
+    if (!isPunctuator("?")) {
+      return test;
+    }
+    current++;
+    const consequent = parseBinary(0);
+    expect(":");
+    const alternate = parseConditional();
+    return {
+      type: "Conditional",
+      test,
+      consequent,
+      alternate,
+      start: test.start,
+      end: alternate.end,
+    };
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level === PRECEDENCE.length) {
+      return parseUnary();
+    }
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const operator = PRECEDENCE[level].find((op) => isOperator(op));
+      if (!operator) {
+        return left;
+      }
+      current++;
+      const right = parseBinary(level + 1);
+      left = {
+        type: "Binary",
+        operator,
+        left,
+        right,
+        start: left.start,
+        end: right.end,
+      };
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (isPunctuator("!") || isPunctuator("-")) {
+      current++;
+      const operand = parseUnary();
+      return {
+        type: "Unary",
+        operator: token.text as "!" | "-",
+        operand,
+        start: token.start,
+        end: operand.end,
+      };
+    }
+    return parseMember();
+  };
+
+  const parseMember = (): ExpressionNode => {
+    let node = parsePrimary();
+    for (;;) {
+      if (isPunctuator(".")) {
+        current++;
+        const name = expectIdentifier();
+        if (isPunctuator("(")) {
+          current++;
+          const args = parseList(")", parseConditional);
+          node = {
+            type: "Call",
+            target: node,
+            name: name.text,
+            args,
+            start: node.start,
+            end: tokens[current - 1].end,
+          };
+        } else {
+          node = {
+            type: "Member",
+            object: node,
+            property: name.text,
+            start: node.start,
+            end: name.end,
+          };
+        }
+      } else if (isPunctuator("[")) {
+        current++;
+        const index = parseConditional();
+        const close = expect("]");
+        node = {
+          type: "Index",
+          object: node,
+          index,
+          start: node.start,
+          end: close.end,
+        };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    const { start, end } = token;
+    switch (token.type) {
+      case "int":
+      case "uint":
+      case "double":
+      case "string":
+      case "bytes":
+        current++;
+        return {
+          type: "Literal",
+          kind: token.type,
+          value: token.value!,
+          start,
+          end,
+        };
+      case "identifier": {
+        current++;
+        if (token.text === "true" || token.text === "false") {
+          return {
+            type: "Literal",
+            kind: "bool",
+            value: token.text === "true",
+            start,
+            end,
+          };
+        }
+        if (token.text === "null") {
+          return { type: "Literal", kind: "null", value: null, start, end };
+        }
+        if (token.text === "in") {
+          return fail(`Unexpected ${describeToken(token)}`, token);
+        }
+        if (isPunctuator("(")) {
+          current++;
+          const args = parseList(")", parseConditional);
+          return {
+            type: "Call",
+            name: token.text,
+            args,
+            start,
+            end: tokens[current - 1].end,
+          };
+        }
+        return { type: "Identifier", name: token.text, start, end };
+      }
+      case "punctuator":
+        if (token.text === "(") {
+          current++;
+          const inner = parseConditional();
+          expect(")");
+          return inner;
+        }
+        if (token.text === "[") {
+          current++;
+          const elements = parseList("]", parseConditional);
+          return {
+            type: "List",
+            elements,
+            start,
+            end: tokens[current - 1].end,
+          };
+        }
+        if (token.text === "{") {
+          current++;
+          const entries = parseList("}", () => {
+            const key = parseConditional();
+            expect(":");
+            return { key, value: parseConditional() };
+          });
+          return {
+            type: "Map",
+            entries,
+            start,
+            end: tokens[current - 1].end,
+          };
+        }
+        // A leading "." refers to the root scope, e.g. ".inputs".
+        if (token.text === ".") {
+          current++;
+          const name = expectIdentifier();
+          return { type: "Identifier", name: name.text, start, end: name.end };
+        }
+        break;
+    }
+    return fail(`Unexpected ${describeToken(token)}`, token);
+  };
+
+  const node = parseConditional();
+  if (peek().type !== "eof") {
+    fail(`Unexpected ${describeToken(peek())}`);
+  }
+  return node;
+};
+
+// getReferences returns the variables an expression reads, in order of first
+// appearance and without duplicates. Variables declared by macros such as
+// `map` and `cel.bind` are excluded.
+export const getReferences = (
+  expression: string | ExpressionNode
+): ExpressionReference[] => {
+  const node =
+    typeof expression === "string" ? parseExpression(expression) : expression;
+  const references = new Map<string, ExpressionReference>();
+  collectReferences(node, new Set(), references);
+  return [...references.values()];
+};
+
+// asReference returns the reference a node denotes if it's a variable or a
+// member of one accessed with literal keys, e.g. `inputs.name` or
+// `steps['my-step']`, and null otherwise.
+export const asReference = (
+  node: ExpressionNode,
+  bound: Set<string> = new Set()
+): ExpressionReference | null => {
+  if (node.type === "Identifier") {
+    return bound.has(node.name) ? null : { root: node.name, path: [] };
+  }
+  if (node.type === "Member") {
+    const reference = asReference(node.object, bound);
+    return (
+      reference && { ...reference, path: [...reference.path, node.property] }
+    );
+  }
+  if (
+    node.type === "Index" &&
+    node.index.type === "Literal" &&
+    (typeof node.index.value === "string" ||
+      typeof node.index.value === "number")
+  ) {
+    const reference = asReference(node.object, bound);
+    return (
+      reference && {
+        ...reference,
+        path: [...reference.path, `${node.index.value}`],
+      }
+    );
+  }
+  return null;
+};
+
+const collectReferences = (
+  node: ExpressionNode,
+  bound: Set<string>,
+  references: Map<string, ExpressionReference>
+) => {
+  const collect = (child: ExpressionNode, scope: Set<string> = bound) =>
+    collectReferences(child, scope, references);
+
+  switch (node.type) {
+    case "Identifier":
+    case "Member":
+    case "Index": {
+      const reference = asReference(node, bound);
+      if (reference) {
+        const key = JSON.stringify([reference.root, ...reference.path]);
+        if (!references.has(key)) {
+          references.set(key, reference);
+        }
+      } else if (node.type === "Member") {
+        collect(node.object);
+      } else if (node.type === "Index") {
+        collect(node.object);
+        collect(node.index);
+      }
+      return;
+    }
+    case "Call": {
+      const [variable, ...rest] = node.args;
+      if (
+        node.target &&
+        MACROS.includes(node.name) &&
+        variable?.type === "Identifier" &&
+        rest.length > 0
+      ) {
+        collect(node.target);
+        const scope = new Set(bound).add(variable.name);
+        rest.forEach((arg) => collect(arg, scope));
+        return;
+      }
+      if (
+        node.name === "bind" &&
+        node.target?.type === "Identifier" &&
+        node.target.name === "cel" &&
+        variable?.type === "Identifier" &&
+        rest.length === 2
+      ) {
+        collect(rest[0]);
+        collect(rest[1], new Set(bound).add(variable.name));
+        return;
+      }
+      if (node.target) {
+        collect(node.target);
+      }
+      node.args.forEach((arg) => collect(arg));
+      return;
+    }
+    case "Unary":
+      collect(node.operand);
+      return;
+    case "Binary":
+      collect(node.left);
+      collect(node.right);
+      return;
+    case "Conditional":
+      collect(node.test);
+      collect(node.consequent);
+      collect(node.alternate);
+      return;
+    case "List":
+      node.elements.forEach((element) => collect(element));
+      return;
+    case "Map":
+      node.entries.forEach(({ key, value }) => {
+        collect(key);
+        collect(value);
+      });
+      return;
+    case "Literal":
+      return;
+  }
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    if (/\s/.test(source[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const rest = source.slice(i);
+
+    const quoted = rest.match(/^([rR][bB]?|[bB][rR]?)?(['"])/);
+    if (quoted) {
+      const prefix = (quoted[1] ?? "").toLowerCase();
+      const { value, end } = readString(
+        source,
+        start,
+        start + prefix.length,
+        prefix.includes("r")
+      );
+      tokens.push({
+        type: prefix.includes("b") ? "bytes" : "string",
+        text: source.slice(start, end),
+        value,
+        start,
+        end,
+      });
+      i = end;
+      continue;
+    }
+
+    const number = rest.match(
+      /^(?:0[xX]([0-9a-fA-F]+)([uU]?)|(\d+(\.\d+)?([eE][+-]?\d+)?)([uU]?))/
+    );
+    if (number) {
+      const [text, hex, hexUnsigned, decimal, fraction, exponent, unsigned] =
+        number;
+      const end = start + text.length;
+      if (hex !== undefined) {
+        tokens.push({
+          type: hexUnsigned ? "uint" : "int",
+          text,
+          value: parseInt(hex, 16),
+          start,
+          end,
+        });
+      } else if (fraction !== undefined || exponent !== undefined) {
+        if (unsigned) {
+          throw new ExpressionSyntaxError(
+            "Invalid unsigned floating point literal",
+            source,
+            start
+          );
+        }
+        tokens.push({
+          type: "double",
+          text,
+          value: Number(decimal),
+          start,
+          end,
+        });
+      } else {
+        tokens.push({
+          type: unsigned ? "uint" : "int",
+          text,
+          value: Number(decimal),
+          start,
+          end,
+        });
+      }
+      i = end;
+      continue;
+    }
+
+    const identifier = rest.match(/^[_a-zA-Z][_a-zA-Z0-9]*/);
+    if (identifier) {
+      const end = start + identifier[0].length;
+      tokens.push({ type: "identifier", text: identifier[0], start, end });
+      i = end;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => rest.startsWith(p));
+    if (punctuator) {
+      const end = start + punctuator.length;
+      tokens.push({ type: "punctuator", text: punctuator, start, end });
+      i = end;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(
+      `Unexpected character "${source[i]}"`,
+      source,
+      start
+    );
+  }
+  tokens.push({ type: "eof", text: "", start: i, end: i });
+  return tokens;
+};
+
+// readString reads a single, double or triple quoted string starting at
+// quoteStart and returns its decoded value and where it ends.
+const readString = (
+  source: string,
+  start: number,
+  quoteStart: number,
+  raw: boolean
+): { value: string; end: number } => {
+  const quote = source[quoteStart];
+  const triple = source.startsWith(quote.repeat(3), quoteStart);
+  const delimiter = triple ? quote.repeat(3) : quote;
+  let i = quoteStart + delimiter.length;
+  let value = "";
+  for (;;) {
+    if (i >= source.length || (!triple && /[\r\n]/.test(source[i]))) {
+      throw new ExpressionSyntaxError("Unterminated string", source, start);
+    }
+    if (source.startsWith(delimiter, i)) {
+      return { value, end: i + delimiter.length };
+    }
+    if (source[i] === "\\" && !raw) {
+      const escape = readEscape(source, i);
+      value += escape.value;
+      i += escape.length;
+      continue;
+    }
+    value += source[i];
+    i++;
+  }
+};
+
+const readEscape = (
+  source: string,
+  start: number
+): { value: string; length: number } => {
+  const char = source[start + 1];
+  if (char in ESCAPES) {
+    return { value: ESCAPES[char], length: 2 };
+  }
+  const hexLengths: Record<string, number> = { x: 2, X: 2, u: 4, U: 8 };
+  if (char in hexLengths) {
+    const digits = source.substr(start + 2, hexLengths[char]);
+    if (new RegExp(`^[0-9a-fA-F]{${hexLengths[char]}}$`).test(digits)) {
+      return {
+        value: String.fromCodePoint(parseInt(digits, 16)),
+        length: 2 + digits.length,
+      };
+    }
+  }
+  const octal = source.substr(start + 1, 3);
+  if (/^[0-3][0-7]{2}$/.test(octal)) {
+    return { value: String.fromCharCode(parseInt(octal, 8)), length: 4 };
+  }
+  throw new ExpressionSyntaxError("Invalid escape sequence", source, start);
+};
+
+const describeToken = (token: Token): string => {
+  return token.type === "eof" ? "end of expression" : `"${token.text}"`;
+};
@@ -0,0 +1,54 @@
+const DEFAULT_CONCURRENCY = 8;
+
+// A FetchContext memoizes lookups by key for the lifetime of a single graph
+// build. Concurrent lookups of the same key share one in-flight fetch and
+// settled results, including failures, are reused. At most `concurrency`
+// fetches run at once; the rest are queued in order.
+export type FetchContext = {
+  fetch: <T>(key: string, fetch: () => Promise<T>) => Promise<T>;
+};
+
+export const createFetchContext = (concurrency?: number): FetchContext => {
+  const limit = Math.max(1, concurrency ?? DEFAULT_CONCURRENCY);
+  const results = new Map<string, Promise<unknown>>();
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const acquire = (): Promise<void> => {
+    if (active < limit) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => queue.push(resolve));
+  };
+
+  // The slot is handed straight to the next queued fetch, if any.
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  const run = async <T>(fetch: () => Promise<T>): Promise<T> => {
+    await acquire();
+    try {
+      return await fetch();
+    } finally {
+      release();
+    }
+  };
+
+  return {
+    fetch: <T>(key: string, fetch: () => Promise<T>): Promise<T> => {
+      let result = results.get(key);
+      if (!result) {
+        result = run(fetch);
+        results.set(key, result);
+      }
+      return result as Promise<T>;
+    },
+  };
+};
@@ -0,0 +1,170 @@
+import { isRecord } from "./records.js";
+import {
+  Function,
+  ValueFunction,
+  ResourceFunction,
+  FunctionCondition,
+  FunctionConditionOutcomeType,
+  Overlay,
+  InlineOverlay,
+  OverlayRef,
+  ResourceTemplateRef,
+  CreateBehavior,
+  UpdateBehaviorType,
+  DeleteBehaviorType,
+} from "../types/function.js";
+
+// Koreo's defaults for the create and update delays, in seconds.
+const DEFAULT_CREATE_DELAY = 30;
+const DEFAULT_UPDATE_DELAY = 30;
+
+const CONDITION_OUTCOMES: FunctionConditionOutcomeType[] = [
+  "defaultReturn",
+  "skip",
+  "depSkip",
+  "retry",
+  "permFail",
+];
+
+export const isValueFunction = (object: unknown): object is ValueFunction => {
+  return (
+    isRecord(object) && object.kind === "ValueFunction" && isRecord(object.spec)
+  );
+};
+
+export const isResourceFunction = (
+  object: unknown
+): object is ResourceFunction => {
+  if (
+    !isRecord(object) ||
+    object.kind !== "ResourceFunction" ||
+    !isRecord(object.spec)
+  ) {
+    return false;
+  }
+  const apiConfig = object.spec.apiConfig;
+  return (
+    isRecord(apiConfig) &&
+    typeof apiConfig.apiVersion === "string" &&
+    typeof apiConfig.kind === "string" &&
+    typeof apiConfig.name === "string"
+  );
+};
+
+export const isFunction = (object: unknown): object is Function => {
+  return isValueFunction(object) || isResourceFunction(object);
+};
+
+export const isFunctionCondition = (
+  value: unknown
+): value is FunctionCondition => {
+  return (
+    isRecord(value) &&
+    typeof value.assert === "string" &&
+    CONDITION_OUTCOMES.filter((outcome) => outcome in value).length === 1
+  );
+};
+
+export const isInlineOverlay = (value: unknown): value is InlineOverlay => {
+  return isRecord(value) && isRecord(value.overlay);
+};
+
+export const isOverlayRef = (value: unknown): value is OverlayRef => {
+  return (
+    isRecord(value) &&
+    isRecord(value.overlayRef) &&
+    value.overlayRef.kind === "ValueFunction" &&
+    typeof value.overlayRef.name === "string"
+  );
+};
+
+// Returns which outcome a failed condition results in.
+export const getConditionOutcome = (
+  condition: FunctionCondition
+): FunctionConditionOutcomeType | undefined => {
+  return CONDITION_OUTCOMES.find((outcome) => outcome in condition);
+};
+
+export const getPreconditions = (func: Function): FunctionCondition[] => {
+  return func.spec.preconditions ?? [];
+};
+
+export const getPostconditions = (
+  func: ResourceFunction
+): FunctionCondition[] => {
+  return func.spec.postconditions ?? [];
+};
+
+export const getLocals = (func: Function): Record<string, any> => {
+  return func.spec.locals ?? {};
+};
+
+export const getReturn = (func: Function): Record<string, any> | undefined => {
+  return func.spec.return;
+};
+
+export const getResourceTemplateRef = (
+  func: ResourceFunction
+): ResourceTemplateRef | undefined => {
+  return func.spec.resourceTemplateRef;
+};
+
+export const getInlineResource = (
+  func: ResourceFunction
+): Record<string, any> | undefined => {
+  return func.spec.resource;
+};
+
+export const getOverlays = (func: ResourceFunction): Overlay[] => {
+  return func.spec.overlays ?? [];
+};
+
+// Returns the names of the ValueFunctions used as overlays.
+export const getOverlayRefNames = (func: ResourceFunction): string[] => {
+  return getOverlays(func)
+    .filter(isOverlayRef)
+    .map((overlay) => overlay.overlayRef.name);
+};
+
+export const getCreateBehavior = (
+  func: ResourceFunction
+): Required<Omit<CreateBehavior, "overlay">> &
+  Pick<CreateBehavior, "overlay"> => {
+  const create = func.spec.create ?? {};
+  return {
+    enabled: create.enabled ?? true,
+    delay: create.delay ?? DEFAULT_CREATE_DELAY,
+    overlay: create.overlay,
+  };
+};
+
+// Resources are patched unless the function says otherwise.
+export const getUpdateBehavior = (
+  func: ResourceFunction
+): { type: UpdateBehaviorType; delay?: number } => {
+  const update = func.spec.update;
+  if (update && "never" in update) {
+    return { type: "never" };
+  }
+  if (update && "recreate" in update) {
+    return {
+      type: "recreate",
+      delay: update.recreate.delay ?? DEFAULT_UPDATE_DELAY,
+    };
+  }
+  return {
+    type: "patch",
+    delay:
+      (update && "patch" in update ? update.patch.delay : undefined) ??
+      DEFAULT_UPDATE_DELAY,
+  };
+};
+
+// Resources are abandoned unless the function says to destroy them.
+export const getDeleteBehavior = (
+  func: ResourceFunction
+): DeleteBehaviorType => {
+  return func.spec.delete && "destroy" in func.spec.delete
+    ? "destroy"
+    : "abandon";
+};
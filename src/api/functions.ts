@@ -1,99 +1,143 @@
-import { getK8sCRDApi } from "./kubernetes";
-import { Function, ValueFunction, ResourceFunction } from "../types/function";
-
-const GROUP = "koreo.dev";
-const VERSION = "v1beta1";
-const RESOURCE_FUNCTION_PLURAL = "resourcefunctions";
-const VALUE_FUNCTION_PLURAL = "valuefunctions";
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { KoreoError, toKoreoError } from "./errors.js";
+import { assertSchema, validateFunctionSchema } from "./schemas.js";
+import {
+  KOREO_GROUP,
+  KOREO_VERSION,
+  KOREO_PLURALS,
+} from "./koreo-resources.js";
+import { listKoreoObjects, iterateKoreoObjects } from "./listing.js";
+import {
+  Function,
+  ValueFunction,
+  ResourceFunction,
+} from "../types/function.js";
+import { KoreoClient } from "../types/client.js";
+import { ListOptions } from "../types/listing.js";
 
 export const listFunctions = async (
-  namespaces: string | string[]
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
 ): Promise<Function[]> => {
-  const api = getK8sCRDApi();
-  const namespaceArray = Array.isArray(namespaces) ? namespaces : [namespaces];
-
-  try {
-    const valueFunctionPromises = namespaceArray.map((namespace) =>
-      api.listNamespacedCustomObject({
-        group: GROUP,
-        version: VERSION,
-        namespace,
-        plural: VALUE_FUNCTION_PLURAL,
-      })
-    );
-    const resourceFunctionPromises = namespaceArray.map((namespace) =>
-      api.listNamespacedCustomObject({
-        group: GROUP,
-        version: VERSION,
-        namespace,
-        plural: RESOURCE_FUNCTION_PLURAL,
-      })
-    );
+  checkContinue(options);
+  const [valueFunctions, resourceFunctions] = await Promise.all([
+    listKoreoObjects("ValueFunction", namespaces, client, options),
+    listKoreoObjects("ResourceFunction", namespaces, client, options),
+  ]);
 
-    const [valueResults, resourceResults] = await Promise.all([
-      Promise.all(valueFunctionPromises),
-      Promise.all(resourceFunctionPromises),
-    ]);
-
-    const valueFunctions = valueResults.flatMap((result) => result.items);
-    const resourceFunctions = resourceResults.flatMap((result) => result.items);
-
-    return [...valueFunctions, ...resourceFunctions];
-  } catch (err) {
-    console.error(
-      `Failed to get functions for namespaces ${namespaceArray}`,
-      err
-    );
-    return [];
-  }
+  return [...valueFunctions, ...resourceFunctions];
 };
 
+// iterateFunctions pages through ValueFunctions and then ResourceFunctions.
+export async function* iterateFunctions(
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
+): AsyncGenerator<Function> {
+  checkContinue(options);
+  yield* iterateKoreoObjects("ValueFunction", namespaces, client, options);
+  yield* iterateKoreoObjects("ResourceFunction", namespaces, client, options);
+}
+
 export const getFunction = async (
   functionId: string,
   kind: string,
-  namespace: string
+  namespace: string,
+  client: KoreoClient = getDefaultKoreoClient()
 ): Promise<Function | null> => {
   if (kind === "ResourceFunction") {
-    return getResourceFunction(functionId, namespace);
+    return getResourceFunction(functionId, namespace, client);
   } else if (kind === "ValueFunction") {
-    return getValueFunction(functionId, namespace);
+    return getValueFunction(functionId, namespace, client);
   }
-  console.error(`Invalid function kind ${kind}`);
-  return null;
+  throw new KoreoError("InvalidResource", `Invalid function kind ${kind}`, {
+    resource: { kind, name: functionId, namespace },
+  });
 };
 
+// Returns null if the ResourceFunction does not exist. Any other failure is
+// thrown as a KoreoError.
 export const getResourceFunction = async (
   functionId: string,
-  namespace: string
+  namespace: string,
+  client: KoreoClient = getDefaultKoreoClient()
 ): Promise<ResourceFunction | null> => {
-  const api = getK8sCRDApi();
+  const resource = { kind: "ResourceFunction", name: functionId, namespace };
+  const cached = client.cache?.get("ResourceFunction", namespace, functionId);
+  if (cached !== undefined) {
+    return (
+      cached &&
+      assertSchema<ResourceFunction>(cached, validateFunctionSchema, resource)
+    );
+  }
+
+  const api = client.backend;
   try {
-    return api.getNamespacedCustomObject({
-      group: GROUP,
-      version: VERSION,
-      namespace,
-      plural: RESOURCE_FUNCTION_PLURAL,
-      name: functionId,
-    });
+    return assertSchema<ResourceFunction>(
+      await api.getCustomObject({
+        group: KOREO_GROUP,
+        version: KOREO_VERSION,
+        namespace,
+        plural: KOREO_PLURALS.ResourceFunction,
+        name: functionId,
+      }),
+      validateFunctionSchema,
+      resource
+    );
   } catch (err) {
-    return null;
+    const error = toKoreoError(err, resource);
+    if (error.reason === "NotFound") {
+      return null;
+    }
+    throw error;
   }
 };
 
+// Returns null if the ValueFunction does not exist. Any other failure is
+// thrown as a KoreoError.
 export const getValueFunction = async (
   functionId: string,
-  namespace: string
+  namespace: string,
+  client: KoreoClient = getDefaultKoreoClient()
 ): Promise<ValueFunction | null> => {
-  const api = getK8sCRDApi();
+  const resource = { kind: "ValueFunction", name: functionId, namespace };
+  const cached = client.cache?.get("ValueFunction", namespace, functionId);
+  if (cached !== undefined) {
+    return (
+      cached &&
+      assertSchema<ValueFunction>(cached, validateFunctionSchema, resource)
+    );
+  }
+
+  const api = client.backend;
   try {
-    return api.getNamespacedCustomObject({
-      group: GROUP,
-      version: VERSION,
-      namespace,
-      plural: VALUE_FUNCTION_PLURAL,
-      name: functionId,
-    });
+    return assertSchema<ValueFunction>(
+      await api.getCustomObject({
+        group: KOREO_GROUP,
+        version: KOREO_VERSION,
+        namespace,
+        plural: KOREO_PLURALS.ValueFunction,
+        name: functionId,
+      }),
+      validateFunctionSchema,
+      resource
+    );
   } catch (err) {
-    return null;
+    const error = toKoreoError(err, resource);
+    if (error.reason === "NotFound") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// A continue token belongs to a single kind's list, so functions have to be
+// paged through one kind at a time with listKoreoObjectsPage.
+const checkContinue = (options: ListOptions) => {
+  if (options.continue) {
+    throw new Error(
+      "A continue token can't be used when listing both kinds of function"
+    );
   }
 };
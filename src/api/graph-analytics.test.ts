@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { analyzeGraph } from "./graph-analytics.js";
+import { getWorkflowGraph } from "./graphs.js";
+import { inflateWorkflowInstanceGraph } from "./inflated-graphs.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { Graph } from "../types/graph.js";
+import { GraphAnalytics } from "../types/graph-analytics.js";
+import { Step } from "../types/workflow.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+const workflow = (name: string, steps: Step[], crdKind?: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata(name),
+  spec: {
+    ...(crdKind
+      ? { crdRef: { apiGroup: "acme.io", version: "v1", kind: crdKind } }
+      : {}),
+    steps,
+  },
+});
+
+const objects = [
+  workflow(
+    "app",
+    [
+      { label: "a", ref: { kind: "ValueFunction", name: "config" } },
+      {
+        label: "b",
+        ref: { kind: "ResourceFunction", name: "map" },
+        inputs: { value: "=steps.a.value" },
+      },
+      {
+        label: "c",
+        ref: { kind: "ValueFunction", name: "config" },
+        inputs: { value: "=steps.a.value" },
+      },
+      {
+        label: "d",
+        ref: { kind: "Workflow", name: "sub" },
+        inputs: { b: "=steps.b.name", c: "=steps.c.value" },
+      },
+    ],
+    "App"
+  ),
+  workflow("sub", [
+    { label: "inner", ref: { kind: "ValueFunction", name: "config" } },
+  ]),
+  {
+    apiVersion: "koreo.dev/v1beta1",
+    kind: "ValueFunction",
+    metadata: metadata("config"),
+    spec: { return: { value: "=inputs.value" } },
+  },
+  {
+    apiVersion: "koreo.dev/v1beta1",
+    kind: "ResourceFunction",
+    metadata: metadata("map"),
+    spec: {
+      apiConfig: { apiVersion: "v1", kind: "ConfigMap", name: "app" },
+      resource: { data: { value: "=inputs.value" } },
+    },
+  },
+  {
+    apiVersion: "acme.io/v1",
+    kind: "App",
+    metadata: {
+      ...metadata("my-app"),
+      annotations: {
+        "koreo.dev/managed-resources": JSON.stringify({
+          workflow: "app",
+          resources: {
+            b: {
+              apiVersion: "v1",
+              kind: "ConfigMap",
+              name: "app",
+              namespace: NAMESPACE,
+              readonly: false,
+              resourceFunction: "map",
+            },
+          },
+        }),
+      },
+    },
+  },
+  { apiVersion: "v1", kind: "ConfigMap", metadata: metadata("app") },
+];
+
+const buildGraph = (): Promise<Graph> => {
+  const client = createKoreoClient({
+    backend: createInMemoryBackend(objects),
+  });
+  return getWorkflowGraph(NAMESPACE, "app", "my-app", client);
+};
+
+// Step node ids start with the step's label.
+const byLabel = (analytics: GraphAnalytics) => {
+  const label = (id: string) => id.split("-")[0];
+  return {
+    levels: analytics.levels.map((level) => level.map(label)),
+    criticalPath: analytics.criticalPath.map(label),
+    nodes: Object.fromEntries(
+      Object.values(analytics.nodes).map(({ id, ...node }) => [label(id), node])
+    ),
+  };
+};
+
+describe("analyzeGraph", () => {
+  it("orders the steps of a Graph", async () => {
+    const analytics = analyzeGraph(await buildGraph());
+
+    expect(byLabel(analytics)).toEqual({
+      levels: [["a"], ["c", "b"], ["d"]],
+      criticalPath: ["a", "c", "d"],
+      nodes: {
+        a: { level: 0, fanIn: 0, fanOut: 2, nestingDepth: 0 },
+        b: { level: 1, fanIn: 1, fanOut: 1, nestingDepth: 0 },
+        c: { level: 1, fanIn: 1, fanOut: 1, nestingDepth: 0 },
+        d: { level: 2, fanIn: 2, fanOut: 0, nestingDepth: 0 },
+      },
+    });
+    expect(analytics.order).toEqual(analytics.levels.flat());
+    expect(analytics.maxNestingDepth).toBe(1);
+    expect(analytics.cyclic).toEqual([]);
+  });
+
+  it("includes the nested steps of an expanded InflatedGraph", async () => {
+    const analytics = analyzeGraph(
+      inflateWorkflowInstanceGraph(await buildGraph(), true)
+    );
+
+    expect(byLabel(analytics)).toEqual({
+      levels: [["a"], ["c", "b"], ["d"], ["inner"]],
+      criticalPath: ["a", "c", "d", "inner"],
+      nodes: {
+        a: { level: 0, fanIn: 0, fanOut: 2, nestingDepth: 0 },
+        b: { level: 1, fanIn: 1, fanOut: 1, nestingDepth: 0 },
+        c: { level: 1, fanIn: 1, fanOut: 1, nestingDepth: 0 },
+        d: { level: 2, fanIn: 2, fanOut: 1, nestingDepth: 1 },
+        inner: { level: 3, fanIn: 1, fanOut: 0, nestingDepth: 1 },
+      },
+    });
+    expect(analytics.maxNestingDepth).toBe(1);
+  });
+
+  it("handles an empty graph", () => {
+    expect(analyzeGraph({ nodes: [], edges: [] })).toEqual({
+      order: [],
+      levels: [],
+      criticalPath: [],
+      nodes: {},
+      maxNestingDepth: 0,
+      cyclic: [],
+    });
+  });
+});
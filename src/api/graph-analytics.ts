@@ -0,0 +1,199 @@
+import { isInflatedGraph } from "./inflated-graphs.js";
+import {
+  Graph,
+  InflatedGraph,
+  InflatedNode,
+  KEdge,
+  KNode,
+} from "../types/graph.js";
+import {
+  GraphAnalytics,
+  GraphLevels,
+  NodeAnalytics,
+} from "../types/graph-analytics.js";
+
+// analyzeGraph computes ordering and shape information for the steps of a
+// Graph or an InflatedGraph. The parent, the root Workflow, ResourceTemplates
+// and managed resources aren't steps, so they're left out. CycleToWorkflow
+// edges point back at an ancestor Workflow rather than at a dependent, so
+// they're ignored.
+export const analyzeGraph = (graph: Graph | InflatedGraph): GraphAnalytics => {
+  const nodes = graph.nodes as (KNode | InflatedNode)[];
+  const ids = nodes.filter(isStepNode).map((node) => node.id);
+  const { levels, nodeLevels, predecessors, successors } = levelNodes(
+    ids,
+    graph.edges
+  );
+
+  const nestingDepths = getNestingDepths(graph);
+  const nodeAnalytics: Record<string, NodeAnalytics> = {};
+  ids.forEach((id) => {
+    nodeAnalytics[id] = {
+      id,
+      level: nodeLevels.get(id),
+      fanIn: predecessors.get(id)!.length,
+      fanOut: successors.get(id)!.length,
+      nestingDepth: nestingDepths.get(id) ?? 0,
+    };
+  });
+
+  return {
+    order: levels.flat(),
+    levels,
+    criticalPath: getCriticalPath(levels, nodeLevels, predecessors),
+    nodes: nodeAnalytics,
+    maxNestingDepth: getMaxNestingDepth(graph),
+    cyclic: ids.filter((id) => !nodeLevels.has(id)),
+  };
+};
+
+// getGraphLevels groups every node of a graph by dependency level, unlike
+// analyzeGraph which only considers steps. It's meant for drawing the whole
+// graph.
+export const getGraphLevels = (graph: Graph | InflatedGraph): GraphLevels => {
+  const ids = graph.nodes.map((node) => node.id);
+  const { levels, nodeLevels } = levelNodes(ids, graph.edges);
+  return { levels, cyclic: ids.filter((id) => !nodeLevels.has(id)) };
+};
+
+// levelNodes peels off the nodes without remaining dependencies one level at
+// a time, which puts each node one level after its deepest dependency.
+const levelNodes = (ids: string[], graphEdges: KEdge[]) => {
+  const edges = dependencyEdges(graphEdges, new Set(ids));
+  const predecessors = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const successors = new Map<string, string[]>(ids.map((id) => [id, []]));
+  edges.forEach((edge) => {
+    predecessors.get(edge.target)!.push(edge.source);
+    successors.get(edge.source)!.push(edge.target);
+  });
+
+  const levels: string[][] = [];
+  const nodeLevels = new Map<string, number>();
+  const remaining = new Map(
+    ids.map((id) => [id, predecessors.get(id)!.length])
+  );
+  let level = ids.filter((id) => remaining.get(id) === 0);
+  while (level.length > 0) {
+    const index = levels.length;
+    levels.push(level);
+    level.forEach((id) => nodeLevels.set(id, index));
+    const next = new Set<string>();
+    level.forEach((id) =>
+      successors.get(id)!.forEach((successor) => {
+        const count = remaining.get(successor)! - 1;
+        remaining.set(successor, count);
+        if (count === 0) {
+          next.add(successor);
+        }
+      })
+    );
+    level = ids.filter((id) => next.has(id));
+  }
+  return { levels, nodeLevels, predecessors, successors };
+};
+
+// In an expanded InflatedGraph a nested Workflow node is the entry of a
+// sub-workflow step, and a RefSwitch step is split into RefSwitch and
+// RefSwitchResult nodes.
+const isStepNode = (node: KNode | InflatedNode): boolean => {
+  if (typeof node.type === "string") {
+    return STEP_NODE_TYPES.includes(node.type);
+  }
+  if (!node.type.isKoreoType) {
+    return false;
+  }
+  return node.type.name === "Workflow"
+    ? typeof node.metadata?.nestingDepth === "number"
+    : node.type.name !== "ResourceTemplate";
+};
+
+const STEP_NODE_TYPES: string[] = [
+  "ValueFunction",
+  "ResourceFunction",
+  "RefSwitch",
+  "SubWorkflow",
+  "WorkflowCycle",
+];
+
+// dependencyEdges returns the edges between known nodes, without duplicates
+// or CycleToWorkflow edges.
+const dependencyEdges = (edges: KEdge[], known: Set<string>): KEdge[] => {
+  const seen = new Set<string>();
+  return edges.filter((edge) => {
+    const key = `${edge.source}:${edge.target}`;
+    if (
+      edge.type === "CycleToWorkflow" ||
+      !known.has(edge.source) ||
+      !known.has(edge.target) ||
+      seen.has(key)
+    ) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+// getCriticalPath walks back from the first node in the deepest level,
+// always stepping to a dependency one level up.
+const getCriticalPath = (
+  levels: string[][],
+  nodeLevels: Map<string, number>,
+  predecessors: Map<string, string[]>
+): string[] => {
+  if (levels.length === 0) {
+    return [];
+  }
+  const path = [levels[levels.length - 1][0]];
+  for (let level = levels.length - 2; level >= 0; level--) {
+    const previous = predecessors
+      .get(path[0])!
+      .filter((id) => nodeLevels.get(id) === level);
+    const next = levels[level].find((id) => previous.includes(id))!;
+    path.unshift(next);
+  }
+  return path;
+};
+
+// Expanded InflatedGraphs record how deeply each node is nested. The nested
+// nodes of a Graph live inside its SubWorkflow nodes, so its own nodes are
+// never nested.
+const getNestingDepths = (
+  graph: Graph | InflatedGraph
+): Map<string, number> => {
+  const depths = new Map<string, number>();
+  if (isInflatedGraph(graph)) {
+    graph.nodes.forEach((node) => {
+      const depth = node.metadata?.nestingDepth;
+      if (typeof depth === "number") {
+        depths.set(node.id, depth);
+      }
+    });
+  }
+  return depths;
+};
+
+const getMaxNestingDepth = (graph: Graph | InflatedGraph): number => {
+  if (isInflatedGraph(graph)) {
+    // A collapsed SubWorkflow node hides one more level of nesting.
+    return Math.max(
+      0,
+      ...graph.nodes.map(
+        (node) =>
+          ((node.metadata?.nestingDepth as number | undefined) ?? 0) +
+          (node.type.name === "SubWorkflow" ? 1 : 0)
+      )
+    );
+  }
+  return Math.max(0, ...graph.nodes.map(subWorkflowDepth));
+};
+
+const subWorkflowDepth = (node: KNode): number => {
+  if (node.type === "SubWorkflow") {
+    return 1 + getMaxNestingDepth(node.workflowGraph);
+  }
+  if (node.type === "RefSwitch") {
+    return Math.max(0, ...Object.values(node.caseNodes).map(subWorkflowDepth));
+  }
+  return 0;
+};
@@ -0,0 +1,266 @@
+import { isInflatedGraph } from "./inflated-graphs.js";
+import { isRecord } from "./records.js";
+import {
+  Graph,
+  InflatedGraph,
+  InflatedNode,
+  KEdge,
+  KNode,
+  ManagedKubernetesResource,
+} from "../types/graph.js";
+import {
+  GraphDiff,
+  NodeDiff,
+  NodeField,
+  NodeFieldChange,
+  EdgeDiff,
+} from "../types/graph-diff.js";
+import { KubernetesResource } from "../types/managed-resource.js";
+
+// The comparable aspects of a node, regardless of graph flavor.
+type NodeFacets = Partial<
+  Record<Exclude<NodeField, "resourceStatus">, unknown>
+>;
+
+// diffGraphs compares two graphs, matching nodes and edges by id. Use it to
+// compare two reconciliations of an instance or two versions of a Workflow.
+export function diffGraphs(a: Graph, b: Graph): GraphDiff<KNode>;
+export function diffGraphs(
+  a: InflatedGraph,
+  b: InflatedGraph
+): GraphDiff<InflatedNode>;
+export function diffGraphs(
+  a: Graph | InflatedGraph,
+  b: Graph | InflatedGraph
+): GraphDiff<KNode> | GraphDiff<InflatedNode> {
+  if (isInflatedGraph(a) || isInflatedGraph(b)) {
+    return diff(
+      a.nodes as InflatedNode[],
+      b.nodes as InflatedNode[],
+      a.edges,
+      b.edges,
+      describeInflatedNode
+    );
+  }
+  return diff(
+    a.nodes as KNode[],
+    b.nodes as KNode[],
+    a.edges,
+    b.edges,
+    describeNode
+  );
+}
+
+export const isEmptyGraphDiff = <N>(graphDiff: GraphDiff<N>): boolean => {
+  return (
+    graphDiff.addedNodes.length === 0 &&
+    graphDiff.removedNodes.length === 0 &&
+    graphDiff.modifiedNodes.length === 0 &&
+    graphDiff.addedEdges.length === 0 &&
+    graphDiff.removedEdges.length === 0 &&
+    graphDiff.modifiedEdges.length === 0
+  );
+};
+
+const diff = <N extends { id: string }>(
+  nodesA: N[],
+  nodesB: N[],
+  edgesA: KEdge[],
+  edgesB: KEdge[],
+  describe: (node: N) => {
+    facets: NodeFacets;
+    resources?: Record<string, ManagedKubernetesResource>;
+  }
+): GraphDiff<N> => {
+  const result: GraphDiff<N> = {
+    addedNodes: [],
+    removedNodes: [],
+    modifiedNodes: [],
+    addedEdges: [],
+    removedEdges: [],
+    modifiedEdges: [],
+  };
+
+  const nodesById = new Map(nodesA.map((node) => [node.id, node]));
+  const nodeIdsB = new Set(nodesB.map((node) => node.id));
+  nodesA.forEach((node) => {
+    if (!nodeIdsB.has(node.id)) {
+      result.removedNodes.push(node);
+    }
+  });
+  nodesB.forEach((after) => {
+    const before = nodesById.get(after.id);
+    if (!before) {
+      result.addedNodes.push(after);
+      return;
+    }
+    const changes = diffNodes(describe(before), describe(after));
+    if (changes.length > 0) {
+      const nodeDiff: NodeDiff<N> = { id: after.id, before, after, changes };
+      result.modifiedNodes.push(nodeDiff);
+    }
+  });
+
+  const edgesById = new Map(edgesA.map((edge) => [edge.id, edge]));
+  const edgeIdsB = new Set(edgesB.map((edge) => edge.id));
+  edgesA.forEach((edge) => {
+    if (!edgeIdsB.has(edge.id)) {
+      result.removedEdges.push(edge);
+    }
+  });
+  edgesB.forEach((after) => {
+    const before = edgesById.get(after.id);
+    if (!before) {
+      result.addedEdges.push(after);
+    } else if (
+      before.type !== after.type ||
+      !isEqual(before.metadata, after.metadata)
+    ) {
+      const edgeDiff: EdgeDiff = { id: after.id, before, after };
+      result.modifiedEdges.push(edgeDiff);
+    }
+  });
+
+  return result;
+};
+
+const diffNodes = (
+  before: {
+    facets: NodeFacets;
+    resources?: Record<string, ManagedKubernetesResource>;
+  },
+  after: {
+    facets: NodeFacets;
+    resources?: Record<string, ManagedKubernetesResource>;
+  }
+): NodeFieldChange[] => {
+  const changes: NodeFieldChange[] = [];
+  const fields = new Set([
+    ...Object.keys(before.facets),
+    ...Object.keys(after.facets),
+  ]) as Set<keyof NodeFacets>;
+  fields.forEach((field) => {
+    if (!isEqual(before.facets[field], after.facets[field])) {
+      changes.push({
+        field,
+        before: before.facets[field],
+        after: after.facets[field],
+      });
+    }
+  });
+
+  // Compare the status of resources managed in both versions. Membership
+  // changes are covered by the managedResources facet.
+  const statusBefore: Record<string, unknown> = {};
+  const statusAfter: Record<string, unknown> = {};
+  Object.entries(before.resources ?? {}).forEach(([key, resource]) => {
+    const afterResource = after.resources?.[key];
+    if (
+      afterResource &&
+      !isEqual(resource.resource?.status, afterResource.resource?.status)
+    ) {
+      statusBefore[key] = resource.resource?.status;
+      statusAfter[key] = afterResource.resource?.status;
+    }
+  });
+  if (Object.keys(statusBefore).length > 0) {
+    changes.push({
+      field: "resourceStatus",
+      before: statusBefore,
+      after: statusAfter,
+    });
+  }
+
+  return changes;
+};
+
+const describeNode = (
+  node: KNode
+): {
+  facets: NodeFacets;
+  resources?: Record<string, ManagedKubernetesResource>;
+} => {
+  const { label, ...metadata } = node.metadata ?? {};
+  const facets: NodeFacets = { type: node.type, label, metadata };
+  let managedResources: ManagedKubernetesResource[] | undefined;
+
+  if (node.type === "RefSwitch") {
+    facets.switchOn = node.switchOn;
+    facets.cases = Object.fromEntries(
+      Object.entries(node.caseNodes).map(([caseStr, caseNode]) => [
+        caseStr,
+        caseNode.id,
+      ])
+    );
+    managedResources = node.managedResources;
+  } else if (node.type === "WorkflowCycle") {
+    facets.cycle = node.cycle;
+  } else if (node.type === "SubWorkflow") {
+    const workflowNode = node.workflowGraph.nodes[0];
+    facets.spec =
+      workflowNode?.type === "Workflow" ? workflowNode.krm.spec : {};
+    managedResources = node.workflowGraph.managedResources;
+  } else {
+    facets.spec = node.krm.spec;
+    facets.status = node.krm.status;
+    if (node.type === "ResourceFunction") {
+      managedResources = node.managedResources;
+    }
+  }
+
+  if (!managedResources) {
+    return { facets };
+  }
+  const resources = Object.fromEntries(
+    managedResources.map((resource) => [
+      managedResourceKey(resource.definition),
+      resource,
+    ])
+  );
+  facets.managedResources = Object.keys(resources).sort();
+  return { facets, resources };
+};
+
+// Managed resource membership in an InflatedGraph is expressed by resource
+// nodes and StepToResource edges, so only the node itself is compared here.
+const describeInflatedNode = (node: InflatedNode): { facets: NodeFacets } => {
+  return {
+    facets: {
+      type: node.type,
+      label: node.label,
+      spec: node.krm?.spec,
+      status: node.krm?.status,
+      metadata: node.metadata,
+    },
+  };
+};
+
+const managedResourceKey = (resource: KubernetesResource): string => {
+  return [
+    resource.apiVersion,
+    resource.kind,
+    resource.namespace ?? "",
+    resource.name,
+  ].join("/");
+};
+
+// isEqual is a structural comparison that ignores object key order and treats
+// missing and undefined properties alike.
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isEqual(item, b[i]))
+    );
+  }
+  if (!isRecord(a) || !isRecord(b)) {
+    return false;
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => isEqual(a[key], b[key]));
+};
@@ -0,0 +1,219 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  graphToCytoscape,
+  graphToDot,
+  graphToGraphML,
+  graphToMermaid,
+} from "./graph-export.js";
+import { getWorkflowGraph } from "./graphs.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { Graph } from "../types/graph.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+// A Workflow whose last step runs the Workflow itself, which the graph stops
+// at with a WorkflowCycle node.
+const objects = [
+  {
+    apiVersion: "koreo.dev/v1beta1",
+    kind: "Workflow",
+    metadata: metadata("app"),
+    spec: {
+      steps: [
+        { label: "config", ref: { kind: "ValueFunction", name: "config" } },
+        {
+          label: "map",
+          ref: { kind: "ResourceFunction", name: "map" },
+          inputs: { value: "=steps.config.value" },
+        },
+        {
+          label: "again",
+          ref: { kind: "Workflow", name: "app" },
+          inputs: { value: "=steps.config.value" },
+        },
+      ],
+    },
+  },
+  {
+    apiVersion: "koreo.dev/v1beta1",
+    kind: "ValueFunction",
+    metadata: metadata("config"),
+    spec: { return: { value: "x" } },
+  },
+  {
+    apiVersion: "koreo.dev/v1beta1",
+    kind: "ResourceFunction",
+    metadata: metadata("map"),
+    spec: { apiConfig: { apiVersion: "v1", kind: "ConfigMap", name: "app" } },
+  },
+];
+
+const empty: Graph = { nodes: [], edges: [] };
+
+let graph: Graph;
+
+beforeAll(async () => {
+  const client = createKoreoClient({
+    backend: createInMemoryBackend(objects),
+  });
+  graph = await getWorkflowGraph(NAMESPACE, "app", undefined, client);
+});
+
+describe("graphToDot", () => {
+  it("renders a graph with a cycle", () => {
+    expect(graphToDot(graph)).toBe(
+      [
+        "digraph workflow {",
+        "  rankdir=LR;",
+        '  node [fontname="Helvetica"];',
+        '  edge [fontname="Helvetica"];',
+        '  "undefined-uid-app" [label="app\\nWorkflow", shape="folder", class="koreo"];',
+        '  "again-cycle-undefined-uid-app" [label="again\\nWorkflowCycle", shape="doubleoctagon", class="koreo"];',
+        '  "config-uid-config" [label="config\\nValueFunction", shape="ellipse", class="koreo"];',
+        '  "map-uid-map" [label="map\\nResourceFunction", shape="box", class="koreo"];',
+        '  "again-cycle-undefined-uid-app" -> "undefined-uid-app" [class="CycleToWorkflow", style="bold", constraint="false", label="cycle"];',
+        '  "undefined-uid-app" -> "config-uid-config" [class="WorkflowToStep"];',
+        '  "config-uid-config" -> "map-uid-map" [class="StepToStep"];',
+        '  "config-uid-config" -> "again-cycle-undefined-uid-app" [class="StepToStep"];',
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("renders an empty graph", () => {
+    expect(graphToDot(empty, { direction: "TB" })).toBe(
+      [
+        "digraph workflow {",
+        "  rankdir=TB;",
+        '  node [fontname="Helvetica"];',
+        '  edge [fontname="Helvetica"];',
+        "}",
+      ].join("\n")
+    );
+  });
+});
+
+describe("graphToMermaid", () => {
+  it("renders a graph with a cycle", () => {
+    expect(graphToMermaid(graph)).toBe(
+      [
+        "flowchart LR",
+        '  n0[["app<br/>Workflow"]]',
+        '  n1(("again<br/>WorkflowCycle"))',
+        '  n2("config<br/>ValueFunction")',
+        '  n3["map<br/>ResourceFunction"]',
+        '  n1 ==>|"cycle"| n0',
+        "  n0 --> n2",
+        "  n2 --> n3",
+        "  n2 --> n1",
+        "  classDef koreo fill:#fff4e5,stroke:#f29d38",
+        "  classDef resource fill:#f5f5f5,stroke:#999999",
+        "  classDef managed fill:#e8f0fe,stroke:#4a7bd0",
+        "  classDef readonly stroke-dasharray:4 2",
+        "  class n0,n1,n2,n3 koreo",
+      ].join("\n")
+    );
+  });
+
+  it("renders an empty graph", () => {
+    expect(graphToMermaid(empty)).toBe(
+      [
+        "flowchart LR",
+        "  classDef koreo fill:#fff4e5,stroke:#f29d38",
+        "  classDef resource fill:#f5f5f5,stroke:#999999",
+        "  classDef managed fill:#e8f0fe,stroke:#4a7bd0",
+        "  classDef readonly stroke-dasharray:4 2",
+      ].join("\n")
+    );
+  });
+});
+
+describe("graphToCytoscape", () => {
+  it("renders a graph with a cycle", () => {
+    const node = (id: string, label: string, type: string) => ({
+      data: { id, label, type, isKoreoType: true, managedResource: false },
+      classes: `${type} koreo`,
+    });
+    const edge = (source: string, target: string, type: string) => ({
+      data: { id: `${source}:${target}`, source, target, type },
+      classes: type,
+    });
+
+    expect(graphToCytoscape(graph)).toEqual({
+      elements: {
+        nodes: [
+          node("undefined-uid-app", "app", "Workflow"),
+          node("again-cycle-undefined-uid-app", "again", "WorkflowCycle"),
+          node("config-uid-config", "config", "ValueFunction"),
+          node("map-uid-map", "map", "ResourceFunction"),
+        ],
+        edges: [
+          edge(
+            "again-cycle-undefined-uid-app",
+            "undefined-uid-app",
+            "CycleToWorkflow"
+          ),
+          edge("undefined-uid-app", "config-uid-config", "WorkflowToStep"),
+          edge("config-uid-config", "map-uid-map", "StepToStep"),
+          edge(
+            "config-uid-config",
+            "again-cycle-undefined-uid-app",
+            "StepToStep"
+          ),
+        ],
+      },
+    });
+  });
+
+  it("renders an empty graph", () => {
+    expect(graphToCytoscape(empty)).toEqual({
+      elements: { nodes: [], edges: [] },
+    });
+  });
+});
+
+describe("graphToGraphML", () => {
+  const header = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="all" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="all" attr.name="type" attr.type="string"/>',
+    '  <key id="isKoreoType" for="node" attr.name="isKoreoType" attr.type="boolean"/>',
+    '  <key id="managedResource" for="node" attr.name="managedResource" attr.type="boolean"/>',
+    '  <key id="readonly" for="node" attr.name="readonly" attr.type="boolean"/>',
+    '  <graph id="workflow" edgedefault="directed">',
+  ];
+  const node = (id: string, label: string, type: string) =>
+    `    <node id="${id}"><data key="label">${label}</data><data key="type">${type}</data><data key="isKoreoType">true</data><data key="managedResource">false</data><data key="readonly">false</data></node>`;
+
+  it("renders a graph with a cycle", () => {
+    expect(graphToGraphML(graph)).toBe(
+      [
+        ...header,
+        node("undefined-uid-app", "app", "Workflow"),
+        node("again-cycle-undefined-uid-app", "again", "WorkflowCycle"),
+        node("config-uid-config", "config", "ValueFunction"),
+        node("map-uid-map", "map", "ResourceFunction"),
+        '    <edge id="again-cycle-undefined-uid-app:undefined-uid-app" source="again-cycle-undefined-uid-app" target="undefined-uid-app"><data key="type">CycleToWorkflow</data><data key="label">cycle</data></edge>',
+        '    <edge id="undefined-uid-app:config-uid-config" source="undefined-uid-app" target="config-uid-config"><data key="type">WorkflowToStep</data></edge>',
+        '    <edge id="config-uid-config:map-uid-map" source="config-uid-config" target="map-uid-map"><data key="type">StepToStep</data></edge>',
+        '    <edge id="config-uid-config:again-cycle-undefined-uid-app" source="config-uid-config" target="again-cycle-undefined-uid-app"><data key="type">StepToStep</data></edge>',
+        "  </graph>",
+        "</graphml>",
+      ].join("\n")
+    );
+  });
+
+  it("renders an empty graph", () => {
+    expect(graphToGraphML(empty)).toBe(
+      [...header, "  </graph>", "</graphml>"].join("\n")
+    );
+  });
+});
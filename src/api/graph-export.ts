@@ -0,0 +1,602 @@
+import { isInflatedGraph } from "./inflated-graphs.js";
+import {
+  Graph,
+  InflatedGraph,
+  KNode,
+  ManagedKubernetesResource,
+} from "../types/graph.js";
+import {
+  CytoscapeEdgeData,
+  CytoscapeElement,
+  CytoscapeGraph,
+  CytoscapeNodeData,
+  GraphExportOptions,
+} from "../types/graph-export.js";
+
+// The serializers all work from this flattened form of a Graph or an
+// InflatedGraph. Clusters are sub-workflows and nodes name their innermost
+// cluster.
+type ExportNode = {
+  id: string;
+  label: string;
+  type: string;
+  isKoreoType: boolean;
+  managedResource: boolean;
+  readonly: boolean;
+  cluster?: string;
+};
+
+type ExportEdge = {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+  label?: string;
+};
+
+type ExportCluster = {
+  id: string;
+  label: string;
+  parent?: string;
+};
+
+type ExportModel = {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+  clusters: ExportCluster[];
+};
+
+const DOT_SHAPES: Record<string, string> = {
+  Workflow: "folder",
+  SubWorkflow: "folder",
+  RefSwitch: "diamond",
+  RefSwitchResult: "diamond",
+  ResourceFunction: "box",
+  ValueFunction: "ellipse",
+  ResourceTemplate: "note",
+  WorkflowCycle: "doubleoctagon",
+};
+
+const MERMAID_SHAPES: Record<string, [string, string]> = {
+  Workflow: ["[[", "]]"],
+  SubWorkflow: ["[[", "]]"],
+  RefSwitch: ["{{", "}}"],
+  RefSwitchResult: ["{{", "}}"],
+  ResourceFunction: ["[", "]"],
+  ValueFunction: ["(", ")"],
+  ResourceTemplate: [">", "]"],
+  WorkflowCycle: ["((", "))"],
+};
+
+const DOT_EDGE_STYLES: Record<string, string> = {
+  StepToResource: "dashed",
+  FunctionToTemplate: "dotted",
+  CycleToWorkflow: "bold",
+};
+
+const MERMAID_ARROWS: Record<string, string> = {
+  StepToResource: "-.->",
+  FunctionToTemplate: "-.->",
+  CycleToWorkflow: "==>",
+};
+
+// graphToDot renders a graph as a Graphviz digraph. Sub-workflows become
+// clusters and managed resources are filled cylinders, dashed if they're
+// read-only.
+export const graphToDot = (
+  graph: Graph | InflatedGraph,
+  options: GraphExportOptions = {}
+): string => {
+  const model = toExportModel(graph);
+  const lines = [
+    "digraph workflow {",
+    `  rankdir=${options.direction ?? "LR"};`,
+    '  node [fontname="Helvetica"];',
+    '  edge [fontname="Helvetica"];',
+  ];
+
+  const writeCluster = (cluster: string | undefined, indent: string) => {
+    model.nodes
+      .filter((node) => node.cluster === cluster)
+      .forEach((node) => {
+        const attributes: Record<string, string> = {
+          label: `${dotEscape(node.label)}\\n${dotEscape(node.type)}`,
+          shape: node.managedResource
+            ? "cylinder"
+            : node.isKoreoType
+            ? DOT_SHAPES[node.type] ?? "box"
+            : "house",
+          class: nodeClasses(node).join(" "),
+        };
+        if (node.managedResource) {
+          attributes.style = node.readonly ? "filled,dashed" : "filled";
+          attributes.fillcolor = "#e8f0fe";
+        }
+        lines.push(
+          `${indent}${dotId(node.id)} [${dotAttributes(attributes)}];`
+        );
+      });
+    model.clusters
+      .filter((child) => child.parent === cluster)
+      .forEach((child) => {
+        lines.push(`${indent}subgraph ${dotId(`cluster_${child.id}`)} {`);
+        lines.push(`${indent}  label="${dotEscape(child.label)}";`);
+        lines.push(`${indent}  style="rounded,dashed";`);
+        writeCluster(child.id, `${indent}  `);
+        lines.push(`${indent}}`);
+      });
+  };
+  writeCluster(undefined, "  ");
+
+  model.edges.forEach((edge) => {
+    const attributes: Record<string, string> = { class: edge.type };
+    if (DOT_EDGE_STYLES[edge.type]) {
+      attributes.style = DOT_EDGE_STYLES[edge.type];
+    }
+    if (edge.type === "CycleToWorkflow") {
+      attributes.constraint = "false";
+    }
+    if (edge.label) {
+      attributes.label = dotEscape(edge.label);
+    }
+    lines.push(
+      `  ${dotId(edge.source)} -> ${dotId(edge.target)} [${dotAttributes(
+        attributes
+      )}];`
+    );
+  });
+  lines.push("}");
+  return lines.join("\n");
+};
+
+// graphToMermaid renders a graph as a Mermaid flowchart. Node ids are
+// replaced with short generated ones since Mermaid restricts them.
+export const graphToMermaid = (
+  graph: Graph | InflatedGraph,
+  options: GraphExportOptions = {}
+): string => {
+  const model = toExportModel(graph);
+  const ids = new Map(model.nodes.map((node, i) => [node.id, `n${i}`]));
+  const clusterIds = new Map(
+    model.clusters.map((cluster, i) => [cluster.id, `c${i}`])
+  );
+  const lines = [`flowchart ${options.direction ?? "LR"}`];
+
+  const writeCluster = (cluster: string | undefined, indent: string) => {
+    model.nodes
+      .filter((node) => node.cluster === cluster)
+      .forEach((node) => {
+        const [open, close] = node.managedResource
+          ? ["[(", ")]"]
+          : node.isKoreoType
+          ? MERMAID_SHAPES[node.type] ?? ["[", "]"]
+          : ["[/", "/]"];
+        const label = `${mermaidEscape(node.label)}<br/>${mermaidEscape(
+          node.type
+        )}`;
+        lines.push(`${indent}${ids.get(node.id)}${open}"${label}"${close}`);
+      });
+    model.clusters
+      .filter((child) => child.parent === cluster)
+      .forEach((child) => {
+        lines.push(
+          `${indent}subgraph ${clusterIds.get(child.id)}["${mermaidEscape(
+            child.label
+          )}"]`
+        );
+        writeCluster(child.id, `${indent}  `);
+        lines.push(`${indent}end`);
+      });
+  };
+  writeCluster(undefined, "  ");
+
+  model.edges.forEach((edge) => {
+    const arrow = MERMAID_ARROWS[edge.type] ?? "-->";
+    const label = edge.label ? `|"${mermaidEscape(edge.label)}"|` : "";
+    lines.push(
+      `  ${ids.get(edge.source)} ${arrow}${label} ${ids.get(edge.target)}`
+    );
+  });
+
+  lines.push(
+    "  classDef koreo fill:#fff4e5,stroke:#f29d38",
+    "  classDef resource fill:#f5f5f5,stroke:#999999",
+    "  classDef managed fill:#e8f0fe,stroke:#4a7bd0",
+    "  classDef readonly stroke-dasharray:4 2"
+  );
+  ["koreo", "resource", "managed", "readonly"].forEach((className) => {
+    const members = model.nodes
+      .filter((node) => nodeClasses(node).includes(className))
+      .map((node) => ids.get(node.id));
+    if (members.length > 0) {
+      lines.push(`  class ${members.join(",")} ${className}`);
+    }
+  });
+  return lines.join("\n");
+};
+
+// graphToCytoscape returns Cytoscape.js elements. Each element's classes
+// include its type so that stylesheets can target them.
+export const graphToCytoscape = (
+  graph: Graph | InflatedGraph
+): CytoscapeGraph => {
+  const model = toExportModel(graph);
+  const clusters: CytoscapeElement<CytoscapeNodeData>[] = model.clusters.map(
+    (cluster) => ({
+      data: {
+        id: cluster.id,
+        label: cluster.label,
+        type: "Cluster",
+        isKoreoType: true,
+        managedResource: false,
+        ...(cluster.parent ? { parent: cluster.parent } : {}),
+      },
+      classes: "Cluster",
+    })
+  );
+  const nodes: CytoscapeElement<CytoscapeNodeData>[] = model.nodes.map(
+    (node) => ({
+      data: {
+        id: node.id,
+        label: node.label,
+        type: node.type,
+        isKoreoType: node.isKoreoType,
+        managedResource: node.managedResource,
+        ...(node.managedResource ? { readonly: node.readonly } : {}),
+        ...(node.cluster ? { parent: node.cluster } : {}),
+      },
+      classes: [node.type, ...nodeClasses(node)].join(" "),
+    })
+  );
+  const edges: CytoscapeElement<CytoscapeEdgeData>[] = model.edges.map(
+    (edge) => ({
+      data: {
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        type: edge.type,
+      },
+      classes: edge.type,
+    })
+  );
+  return { elements: { nodes: [...clusters, ...nodes], edges } };
+};
+
+// graphToGraphML renders a graph as GraphML. Sub-workflows become nodes
+// with nested graphs.
+export const graphToGraphML = (graph: Graph | InflatedGraph): string => {
+  const model = toExportModel(graph);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="all" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="all" attr.name="type" attr.type="string"/>',
+    '  <key id="isKoreoType" for="node" attr.name="isKoreoType" attr.type="boolean"/>',
+    '  <key id="managedResource" for="node" attr.name="managedResource" attr.type="boolean"/>',
+    '  <key id="readonly" for="node" attr.name="readonly" attr.type="boolean"/>',
+    '  <graph id="workflow" edgedefault="directed">',
+  ];
+
+  const data = (key: string, value: unknown) =>
+    `<data key="${key}">${xmlEscape(`${value}`)}</data>`;
+
+  const writeCluster = (cluster: string | undefined, indent: string) => {
+    model.nodes
+      .filter((node) => node.cluster === cluster)
+      .forEach((node) => {
+        lines.push(
+          `${indent}<node id="${xmlEscape(node.id)}">${[
+            data("label", node.label),
+            data("type", node.type),
+            data("isKoreoType", node.isKoreoType),
+            data("managedResource", node.managedResource),
+            data("readonly", node.readonly),
+          ].join("")}</node>`
+        );
+      });
+    model.clusters
+      .filter((child) => child.parent === cluster)
+      .forEach((child) => {
+        const id = xmlEscape(child.id);
+        lines.push(
+          `${indent}<node id="${id}">${data("label", child.label)}${data(
+            "type",
+            "Cluster"
+          )}`
+        );
+        lines.push(`${indent}  <graph id="${id}:" edgedefault="directed">`);
+        writeCluster(child.id, `${indent}    `);
+        lines.push(`${indent}  </graph>`);
+        lines.push(`${indent}</node>`);
+      });
+  };
+  writeCluster(undefined, "    ");
+
+  model.edges.forEach((edge) => {
+    lines.push(
+      `    <edge id="${xmlEscape(edge.id)}" source="${xmlEscape(
+        edge.source
+      )}" target="${xmlEscape(edge.target)}">${data("type", edge.type)}${
+        edge.label ? data("label", edge.label) : ""
+      }</edge>`
+    );
+  });
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+};
+
+const nodeClasses = (node: ExportNode): string[] => {
+  return [
+    node.isKoreoType ? "koreo" : "resource",
+    ...(node.managedResource ? ["managed"] : []),
+    ...(node.managedResource && node.readonly ? ["readonly"] : []),
+  ];
+};
+
+const toExportModel = (graph: Graph | InflatedGraph): ExportModel => {
+  const model = isInflatedGraph(graph)
+    ? inflatedGraphToModel(graph)
+    : graphToModel(graph);
+  // Drop edges whose nodes aren't part of the graph, which renderers would
+  // otherwise draw as unstyled nodes.
+  const known = new Set(model.nodes.map((node) => node.id));
+  const seen = new Set<string>();
+  model.edges = model.edges.filter((edge) => {
+    if (
+      !known.has(edge.source) ||
+      !known.has(edge.target) ||
+      seen.has(edge.id)
+    ) {
+      return false;
+    }
+    seen.add(edge.id);
+    return true;
+  });
+  return model;
+};
+
+// Expanded InflatedGraphs list the sub-workflows each node is nested in.
+// Each sub-workflow's cluster is labelled after its Workflow node.
+const inflatedGraphToModel = (graph: InflatedGraph): ExportModel => {
+  const clusters = new Map<string, ExportCluster>();
+  const nodes = graph.nodes.map((node) => {
+    const subWorkflows =
+      (node.metadata?.subWorkflows as string[] | undefined) ?? [];
+    subWorkflows.forEach((subWorkflow, i) => {
+      if (!clusters.has(subWorkflow)) {
+        clusters.set(subWorkflow, {
+          id: `cluster:${subWorkflow}`,
+          label: subWorkflow,
+          ...(i > 0 ? { parent: `cluster:${subWorkflows[i - 1]}` } : {}),
+        });
+      }
+    });
+    const exportNode: ExportNode = {
+      id: node.id,
+      label: node.label,
+      type: node.type.name,
+      isKoreoType: node.type.isKoreoType,
+      managedResource: node.metadata?.managedResource === true,
+      readonly: node.metadata?.readonly === true,
+    };
+    if (subWorkflows.length > 0) {
+      exportNode.cluster = `cluster:${subWorkflows[subWorkflows.length - 1]}`;
+    }
+    return exportNode;
+  });
+  graph.nodes.forEach((node) => {
+    const cluster = clusters.get(node.id);
+    if (cluster) {
+      cluster.label = node.label;
+    }
+  });
+  return {
+    nodes,
+    edges: graph.edges.map((edge) => ({ ...edge })),
+    clusters: [...clusters.values()],
+  };
+};
+
+// graphToModel flattens a Graph, turning SubWorkflow nodes into clusters of
+// their nested graphs. Nested node ids are prefixed with their cluster's id
+// since the same Function can appear in several Workflows. Edges into a
+// SubWorkflow node go to its Workflow node and edges out of it leave from
+// its leaf nodes.
+const graphToModel = (graph: Graph): ExportModel => {
+  const state: FlattenState = {
+    model: { nodes: [], edges: [], clusters: [] },
+    workflowIds: new Map(),
+    exits: new Map(),
+  };
+  addGraphToModel(state, graph, "");
+  return state.model;
+};
+
+type FlattenState = {
+  model: ExportModel;
+  // Workflow node ids to their exported ids, for WorkflowCycle edges.
+  workflowIds: Map<string, string>;
+  // SubWorkflow node ids to the ids of their leaf nodes. A leaf may itself
+  // be a SubWorkflow.
+  exits: Map<string, string[]>;
+};
+
+const addGraphToModel = (
+  state: FlattenState,
+  graph: Graph,
+  prefix: string,
+  cluster?: string
+) => {
+  const { model, workflowIds, exits } = state;
+  const entries = new Map<string, string>();
+  const exitsOf = (id: string): string[] =>
+    exits.get(id)?.flatMap(exitsOf) ?? [id];
+
+  const addNode = (node: ExportNode) => {
+    model.nodes.push(cluster ? { ...node, cluster } : node);
+  };
+
+  const addSubWorkflow = (node: KNode, id: string): string | undefined => {
+    if (node.type !== "SubWorkflow" || node.workflowGraph.nodes.length === 0) {
+      return undefined;
+    }
+    const workflowNode = node.workflowGraph.nodes[0];
+    const clusterId = `cluster:${id}`;
+    model.clusters.push({
+      id: clusterId,
+      label: knodeLabel(workflowNode),
+      ...(cluster ? { parent: cluster } : {}),
+    });
+    const nestedPrefix = `${id}/`;
+    addGraphToModel(state, node.workflowGraph, nestedPrefix, clusterId);
+    exits.set(
+      id,
+      node.workflowLeafNodeIds.map((leaf) => `${nestedPrefix}${leaf}`)
+    );
+    return `${nestedPrefix}${workflowNode.id}`;
+  };
+
+  const addCycleEdge = (id: string, targetNodeId: string) => {
+    const target = workflowIds.get(targetNodeId);
+    if (target) {
+      model.edges.push({
+        id: `${id}:${target}`,
+        source: id,
+        target,
+        type: "CycleToWorkflow",
+        label: "cycle",
+      });
+    }
+  };
+
+  const addResources = (
+    id: string,
+    managedResources: ManagedKubernetesResource[] = []
+  ) => {
+    managedResources.forEach(({ definition }) => {
+      const resourceId = `resource:${[
+        definition.apiVersion,
+        definition.kind,
+        definition.namespace ?? "",
+        definition.name,
+      ].join("/")}`;
+      if (!model.nodes.some((node) => node.id === resourceId)) {
+        addNode({
+          id: resourceId,
+          label: definition.name,
+          type: definition.kind,
+          isKoreoType: false,
+          managedResource: true,
+          readonly: definition.readonly,
+        });
+      }
+      model.edges.push({
+        id: `${id}:${resourceId}`,
+        source: id,
+        target: resourceId,
+        type: "StepToResource",
+      });
+    });
+  };
+
+  const addKNode = (node: KNode, id: string, label?: string) => {
+    const entry = addSubWorkflow(node, id);
+    if (entry) {
+      entries.set(id, entry);
+      return entry;
+    }
+    if (node.type === "SubWorkflow") {
+      return undefined;
+    }
+    if (node.type === "Workflow") {
+      workflowIds.set(node.id, id);
+    }
+    addNode({
+      id,
+      label: label ?? knodeLabel(node),
+      type: node.type === "Parent" ? node.krm.kind ?? "Parent" : node.type,
+      isKoreoType: node.type !== "Parent",
+      managedResource: false,
+      readonly: false,
+    });
+    if (node.type === "WorkflowCycle") {
+      addCycleEdge(id, node.targetNodeId);
+    } else if (node.type === "ResourceFunction") {
+      addResources(id, node.managedResources);
+    } else if (node.type === "RefSwitch") {
+      Object.entries(node.caseNodes).forEach(([switchCase, caseNode]) => {
+        const caseId = `${id}/case/${caseNode.id}`;
+        const target = addKNode(caseNode, caseId, `case: ${switchCase}`);
+        if (target) {
+          model.edges.push({
+            id: `${id}:${caseId}`,
+            source: id,
+            target,
+            type: "RefSwitchCase",
+            label: switchCase,
+          });
+        }
+      });
+    }
+    return id;
+  };
+
+  graph.nodes.forEach((node) => addKNode(node, `${prefix}${node.id}`));
+  graph.edges.forEach((edge) => {
+    const source = `${prefix}${edge.source}`;
+    const target = `${prefix}${edge.target}`;
+    exitsOf(source).forEach((from) => {
+      const to = entries.get(target) ?? target;
+      model.edges.push({
+        id: `${from}:${to}`,
+        source: from,
+        target: to,
+        type: edge.type,
+      });
+    });
+  });
+};
+
+const knodeLabel = (node: KNode): string => {
+  if (typeof node.metadata?.label === "string") {
+    return node.metadata.label;
+  }
+  if (node.type === "WorkflowCycle") {
+    return node.workflowId;
+  }
+  if ("krm" in node) {
+    return node.krm.metadata?.name ?? node.id;
+  }
+  return node.id;
+};
+
+const dotId = (id: string): string => `"${dotEscape(id)}"`;
+
+const dotEscape = (value: string): string => {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+};
+
+const dotAttributes = (attributes: Record<string, string>): string => {
+  return Object.entries(attributes)
+    .map(([key, value]) => `${key}="${value}"`)
+    .join(", ");
+};
+
+const mermaidEscape = (value: string): string => {
+  return value
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;");
+};
+
+const xmlEscape = (value: string): string => {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+};
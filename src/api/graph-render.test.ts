@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { renderGraph } from "./graph-render.js";
+import { EdgeType, InflatedGraph, KoreoType } from "../types/graph.js";
+
+const node = (
+  id: string,
+  name: KoreoType["name"],
+  metadata?: Record<string, unknown>
+) => ({
+  id,
+  label: id,
+  type: { isKoreoType: true as const, name },
+  ...(metadata ? { metadata } : {}),
+});
+
+const edge = (source: string, target: string, type: EdgeType) => ({
+  id: `${source}:${target}`,
+  source,
+  target,
+  type,
+});
+
+// An instance graph whose last step runs the Workflow itself.
+const graph: InflatedGraph = {
+  nodes: [
+    node("app", "Workflow"),
+    node("config", "ValueFunction", { health: { status: "Healthy" } }),
+    node("map", "ResourceFunction", {
+      health: {
+        status: "Degraded",
+        message: "ConfigMap app is missing a required field",
+      },
+    }),
+    node("again", "WorkflowCycle"),
+  ],
+  edges: [
+    edge("app", "config", "WorkflowToStep"),
+    edge("config", "map", "StepToStep"),
+    edge("config", "again", "StepToStep"),
+    edge("again", "app", "CycleToWorkflow"),
+  ],
+};
+
+const empty: InflatedGraph = { nodes: [], edges: [] };
+
+describe("renderGraph", () => {
+  it("draws a row of boxes for each level", () => {
+    expect(renderGraph(graph)).toBe(
+      [
+        "┌──────────┐",
+        "│ 1. app   │",
+        "│ Workflow │",
+        "│ → 2      │",
+        "└──────────┘",
+        "  │",
+        "  ▼",
+        "┌───────────────┐",
+        "│ 2. config     │",
+        "│ ValueFunction │",
+        "│ Healthy       │",
+        "│ → 3, 4        │",
+        "└───────────────┘",
+        "  │",
+        "  ▼",
+        "┌────────────────────────────┐ ┌───────────────┐",
+        "│ 3. map                     │ │ 4. again      │",
+        "│ ResourceFunction           │ │ WorkflowCycle │",
+        "│ Degraded                   │ │ → 1           │",
+        "│ ConfigMap app is missing a │ └───────────────┘",
+        "│ required field             │",
+        "└────────────────────────────┘",
+      ].join("\n")
+    );
+  });
+
+  it("wraps boxes onto new rows to fit the width", () => {
+    expect(renderGraph(graph, { charset: "ascii", width: 30 })).toBe(
+      [
+        "+----------+",
+        "| 1. app   |",
+        "| Workflow |",
+        "| -> 2     |",
+        "+----------+",
+        "  |",
+        "  v",
+        "+---------------+",
+        "| 2. config     |",
+        "| ValueFunction |",
+        "| Healthy       |",
+        "| -> 3, 4       |",
+        "+---------------+",
+        "  |",
+        "  v",
+        "+----------------------------+",
+        "| 3. map                     |",
+        "| ResourceFunction           |",
+        "| Degraded                   |",
+        "| ConfigMap app is missing a |",
+        "| required field             |",
+        "+----------------------------+",
+        "+---------------+",
+        "| 4. again      |",
+        "| WorkflowCycle |",
+        "| -> 1          |",
+        "+---------------+",
+      ].join("\n")
+    );
+  });
+
+  it("draws a tree that names a node reached again", () => {
+    expect(renderGraph(graph, { layout: "tree" })).toBe(
+      [
+        "app [Workflow]",
+        "└── config [ValueFunction] (Healthy)",
+        "    ├── map [ResourceFunction] (Degraded)",
+        "    └── again [WorkflowCycle]",
+        "        └── app [Workflow] (see above)",
+      ].join("\n")
+    );
+  });
+
+  it("colours nodes by type and health", () => {
+    expect(renderGraph(graph, { layout: "tree", color: true })).toBe(
+      [
+        "\u001b[35mapp\u001b[0m [Workflow]",
+        "└── \u001b[36mconfig\u001b[0m [ValueFunction] \u001b[32m(Healthy)\u001b[0m",
+        "    ├── \u001b[34mmap\u001b[0m [ResourceFunction] \u001b[31m(Degraded)\u001b[0m",
+        "    └── \u001b[90magain\u001b[0m [WorkflowCycle]",
+        "        └── \u001b[35mapp\u001b[0m [Workflow] (see above)",
+      ].join("\n")
+    );
+  });
+
+  it("renders an empty graph as nothing", () => {
+    expect(renderGraph(empty)).toBe("");
+    expect(renderGraph(empty, { layout: "tree" })).toBe("");
+  });
+});
@@ -0,0 +1,360 @@
+import { getGraphLevels } from "./graph-analytics.js";
+import { InflatedGraph, InflatedNode } from "../types/graph.js";
+import { GraphRenderOptions } from "../types/graph-render.js";
+import { Health, HealthStatus } from "../types/health.js";
+
+type Charset = {
+  horizontal: string;
+  vertical: string;
+  topLeft: string;
+  topRight: string;
+  bottomLeft: string;
+  bottomRight: string;
+  down: string;
+  right: string;
+  branch: string;
+  lastBranch: string;
+  pipe: string;
+};
+
+const CHARSETS: Record<"unicode" | "ascii", Charset> = {
+  unicode: {
+    horizontal: "─",
+    vertical: "│",
+    topLeft: "┌",
+    topRight: "┐",
+    bottomLeft: "└",
+    bottomRight: "┘",
+    down: "▼",
+    right: "→",
+    branch: "├── ",
+    lastBranch: "└── ",
+    pipe: "│   ",
+  },
+  ascii: {
+    horizontal: "-",
+    vertical: "|",
+    topLeft: "+",
+    topRight: "+",
+    bottomLeft: "+",
+    bottomRight: "+",
+    down: "v",
+    right: "->",
+    branch: "|-- ",
+    lastBranch: "`-- ",
+    pipe: "|   ",
+  },
+};
+
+// ANSI colour codes by node type. Nodes that aren't Koreo types, such as
+// managed resources and the parent, are left uncoloured.
+const TYPE_COLORS: Record<string, string> = {
+  Workflow: "35",
+  SubWorkflow: "35",
+  RefSwitch: "33",
+  RefSwitchResult: "33",
+  ResourceFunction: "34",
+  ValueFunction: "36",
+  ResourceTemplate: "90",
+  WorkflowCycle: "90",
+};
+
+const HEALTH_COLORS: Record<HealthStatus, string> = {
+  Healthy: "32",
+  Progressing: "33",
+  Degraded: "31",
+  Missing: "31",
+  Unknown: "90",
+};
+
+type RenderContext = {
+  chars: Charset;
+  color: boolean;
+  width: number;
+};
+
+// Text with the colour to paint it, kept separate so that padding and
+// wrapping only count visible characters.
+type Segment = {
+  text: string;
+  color?: string;
+};
+
+// renderGraph draws an InflatedGraph for display in a terminal. Instance
+// graphs also show each node's health.
+export const renderGraph = (
+  graph: InflatedGraph,
+  options: GraphRenderOptions = {}
+): string => {
+  const context: RenderContext = {
+    chars: CHARSETS[options.charset ?? "unicode"],
+    color: options.color ?? false,
+    // Leave room for at least a narrow box.
+    width: Math.max(options.width ?? 80, 16),
+  };
+  const lines =
+    options.layout === "tree"
+      ? renderTree(graph, context)
+      : renderLayers(graph, context);
+  return lines.join("\n");
+};
+
+// renderLayers draws a row of boxes for each dependency level. Nodes are
+// numbered and each box lists the numbers of the nodes that depend on it,
+// since arrows between arbitrary boxes don't survive wrapping.
+const renderLayers = (
+  graph: InflatedGraph,
+  context: RenderContext
+): string[] => {
+  const { chars } = context;
+  const { levels, cyclic } = getGraphLevels(graph);
+  // Nodes caught in a cycle have no level, so they go in a row of their own.
+  if (cyclic.length > 0) {
+    levels.push(cyclic);
+  }
+  const numbers = new Map(levels.flat().map((id, i) => [id, i + 1]));
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const successors = getSuccessors(graph);
+
+  const lines: string[] = [];
+  levels.forEach((level, index) => {
+    if (index > 0) {
+      lines.push(`  ${chars.vertical}`, `  ${chars.down}`);
+    }
+    const boxes = level.map((id) => {
+      const node = nodes.get(id)!;
+      const dependents = (successors.get(id) ?? [])
+        .map((successor) => numbers.get(successor))
+        .filter((number): number is number => number !== undefined)
+        .sort((a, b) => a - b);
+      return renderBox(
+        [
+          { text: `${numbers.get(id)}. ${node.label}`, color: typeColor(node) },
+          { text: node.type.name },
+          ...healthSegments(getHealth(node)),
+          ...(dependents.length > 0
+            ? [{ text: `${chars.right} ${dependents.join(", ")}` }]
+            : []),
+        ],
+        context
+      );
+    });
+    lines.push(...joinBoxes(boxes, context.width));
+  });
+  return lines;
+};
+
+// renderTree indents each node under the nodes that depend on it, starting
+// from the nodes without dependencies. A node reached again is only named.
+const renderTree = (graph: InflatedGraph, context: RenderContext): string[] => {
+  const { chars } = context;
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const successors = getSuccessors(graph);
+  const targets = new Set(
+    graph.edges
+      .filter((edge) => edge.type !== "CycleToWorkflow")
+      .map((edge) => edge.target)
+  );
+  const visited = new Set<string>();
+  const lines: string[] = [];
+
+  const visit = (id: string, prefix: string, childPrefix: string) => {
+    const node = nodes.get(id)!;
+    const health = getHealth(node);
+    const seen = visited.has(id);
+    const segments: Segment[] = [
+      { text: node.label, color: typeColor(node) },
+      { text: `[${node.type.name}]` },
+      ...(health
+        ? [{ text: `(${health.status})`, color: HEALTH_COLORS[health.status] }]
+        : []),
+      ...(seen ? [{ text: "(see above)" }] : []),
+    ];
+    wrap(segments, Math.max(context.width - prefix.length, 8)).forEach(
+      (line, i) => {
+        const text = line
+          .map((segment) => colorize(segment.text, segment.color, context))
+          .join(" ");
+        lines.push(`${i === 0 ? prefix : `${childPrefix}  `}${text}`);
+      }
+    );
+    if (seen) {
+      return;
+    }
+    visited.add(id);
+    const children = successors.get(id) ?? [];
+    children.forEach((child, i) => {
+      const last = i === children.length - 1;
+      visit(
+        child,
+        `${childPrefix}${last ? chars.lastBranch : chars.branch}`,
+        `${childPrefix}${last ? "    " : chars.pipe}`
+      );
+    });
+  };
+
+  graph.nodes
+    .filter((node) => !targets.has(node.id))
+    .forEach((node) => visit(node.id, "", ""));
+  // Nodes that are only reachable through a cycle.
+  graph.nodes
+    .filter((node) => !visited.has(node.id))
+    .forEach((node) => visit(node.id, "", ""));
+  return lines;
+};
+
+// getSuccessors maps node ids to the nodes their outgoing edges point to.
+const getSuccessors = (graph: InflatedGraph): Map<string, string[]> => {
+  const known = new Set(graph.nodes.map((node) => node.id));
+  const successors = new Map<string, string[]>();
+  graph.edges.forEach((edge) => {
+    if (!known.has(edge.source) || !known.has(edge.target)) {
+      return;
+    }
+    const targets = successors.get(edge.source) ?? [];
+    if (!targets.includes(edge.target)) {
+      targets.push(edge.target);
+    }
+    successors.set(edge.source, targets);
+  });
+  return successors;
+};
+
+type Box = {
+  width: number;
+  lines: string[];
+};
+
+// renderBox wraps segments to fit a box no wider than the terminal or 32
+// columns, whichever is narrower.
+const renderBox = (segments: Segment[], context: RenderContext): Box => {
+  const { chars } = context;
+  const maxWidth = Math.min(context.width, 32) - 4;
+  const lines = segments.flatMap((segment) =>
+    wrapText(segment.text, maxWidth).map((text) => ({
+      text,
+      color: segment.color,
+    }))
+  );
+  const innerWidth = Math.max(...lines.map((line) => line.text.length));
+  const border = chars.horizontal.repeat(innerWidth + 2);
+  return {
+    width: innerWidth + 4,
+    lines: [
+      `${chars.topLeft}${border}${chars.topRight}`,
+      ...lines.map(
+        (line) =>
+          `${chars.vertical} ${colorize(
+            line.text,
+            line.color,
+            context
+          )}${" ".repeat(innerWidth - line.text.length)} ${chars.vertical}`
+      ),
+      `${chars.bottomLeft}${border}${chars.bottomRight}`,
+    ],
+  };
+};
+
+// joinBoxes lays boxes out side by side, starting a new row whenever the
+// next box would overflow the width.
+const joinBoxes = (boxes: Box[], width: number): string[] => {
+  const rows: Box[][] = [];
+  let rowWidth = 0;
+  boxes.forEach((box) => {
+    if (rows.length === 0 || rowWidth + 1 + box.width > width) {
+      rows.push([box]);
+      rowWidth = box.width;
+    } else {
+      rows[rows.length - 1].push(box);
+      rowWidth += 1 + box.width;
+    }
+  });
+  return rows.flatMap((row) => {
+    const height = Math.max(...row.map((box) => box.lines.length));
+    return Array.from({ length: height }, (_, i) =>
+      row
+        .map((box) => box.lines[i] ?? " ".repeat(box.width))
+        .join(" ")
+        .trimEnd()
+    );
+  });
+};
+
+const healthSegments = (health: Health | undefined): Segment[] => {
+  if (!health) {
+    return [];
+  }
+  return [
+    { text: health.status, color: HEALTH_COLORS[health.status] },
+    ...(health.message ? [{ text: health.message }] : []),
+  ];
+};
+
+const getHealth = (node: InflatedNode): Health | undefined => {
+  const health = node.metadata?.health as Health | undefined;
+  return health?.status ? health : undefined;
+};
+
+const typeColor = (node: InflatedNode): string | undefined => {
+  return node.type.isKoreoType ? TYPE_COLORS[node.type.name] : undefined;
+};
+
+// wrap joins segments with spaces and wraps them to the width, keeping
+// each word's colour.
+const wrap = (segments: Segment[], width: number): Segment[][] => {
+  const lines: Segment[][] = [[]];
+  let lineWidth = 0;
+  segments.forEach((segment) =>
+    wrapText(segment.text, width).forEach((text) => {
+      const line = lines[lines.length - 1];
+      if (line.length > 0 && lineWidth + 1 + text.length > width) {
+        lines.push([{ text, color: segment.color }]);
+        lineWidth = text.length;
+      } else {
+        line.push({ text, color: segment.color });
+        lineWidth += (line.length > 1 ? 1 : 0) + text.length;
+      }
+    })
+  );
+  return lines;
+};
+
+const colorize = (
+  text: string,
+  color: string | undefined,
+  context: RenderContext
+): string => {
+  return color && context.color ? `\u001b[${color}m${text}\u001b[0m` : text;
+};
+
+// wrapText wraps text at spaces, breaking words that are longer than the
+// width.
+const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  text
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .forEach((word) => {
+      while (word.length > width) {
+        if (line) {
+          lines.push(line);
+          line = "";
+        }
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+      }
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= width) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+  if (line || lines.length === 0) {
+    lines.push(line);
+  }
+  return lines;
+};
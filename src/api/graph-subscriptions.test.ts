@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { subscribeWorkflowInstanceGraph } from "./graph-subscriptions.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { InflatedGraph, InflatedGraphUpdate } from "../types/graph.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+const managedResources = {
+  workflow: "app",
+  resources: {
+    map: {
+      apiVersion: "v1",
+      kind: "ConfigMap",
+      name: "app",
+      namespace: NAMESPACE,
+      readonly: false,
+      resourceFunction: "map",
+    },
+  },
+};
+
+const parent = (conditions: unknown[] = []) => ({
+  apiVersion: "acme.io/v1",
+  kind: "App",
+  metadata: {
+    ...metadata("my-app"),
+    annotations: {
+      "koreo.dev/managed-resources": JSON.stringify(managedResources),
+    },
+  },
+  status: { conditions },
+});
+
+const configMap = (ready: string) => ({
+  apiVersion: "v1",
+  kind: "ConfigMap",
+  metadata: metadata("app"),
+  status: { conditions: [{ type: "Ready", status: ready }] },
+});
+
+const workflow = {
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata("app"),
+  spec: {
+    crdRef: { apiGroup: "acme.io", version: "v1", kind: "App" },
+    steps: [
+      {
+        label: "map",
+        ref: { kind: "ResourceFunction", name: "map" },
+        condition: { type: "MapReady", name: "Map" },
+      },
+    ],
+  },
+};
+
+const resourceFunction = {
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ResourceFunction",
+  metadata: metadata("map"),
+  spec: {
+    apiConfig: { apiVersion: "v1", kind: "ConfigMap", name: "app" },
+    resource: {},
+  },
+};
+
+const subscribe = async () => {
+  const backend = createInMemoryBackend([
+    workflow,
+    resourceFunction,
+    parent(),
+    configMap("False"),
+  ]);
+  const updates: InflatedGraphUpdate[] = [];
+  let notify = () => {};
+  const unsubscribe = await subscribeWorkflowInstanceGraph(
+    NAMESPACE,
+    "app",
+    "my-app",
+    (update) => {
+      updates.push(update);
+      notify();
+    },
+    { retryDelayMs: 10 },
+    createKoreoClient({ backend })
+  );
+  // nextGraph waits for the update following the ones seen so far.
+  const nextGraph = async (): Promise<InflatedGraph> => {
+    const seen = updates.length;
+    while (updates.length === seen) {
+      await new Promise<void>((resolve) => (notify = resolve));
+    }
+    return updates[updates.length - 1].graph;
+  };
+  // Let the watches start before changing anything.
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  return { backend, updates, nextGraph, unsubscribe };
+};
+
+const nodeById = (graph: InflatedGraph, id: string) => {
+  return graph.nodes.find((node) => node.id === id);
+};
+
+describe("subscribeWorkflowInstanceGraph", () => {
+  it("recomputes health when a managed resource changes", async () => {
+    const { backend, updates, nextGraph, unsubscribe } = await subscribe();
+    const initial = updates[0].graph;
+    expect(nodeById(initial, "uid-app")?.metadata?.health).toMatchObject({
+      status: "Progressing",
+    });
+    const parentId = initial.nodes.find((node) =>
+      node.id.startsWith("parent-")
+    )!.id;
+    expect(nodeById(initial, parentId)?.metadata?.health).toMatchObject({
+      status: "Progressing",
+    });
+
+    backend.apply(configMap("True"));
+    const graph = await nextGraph();
+    unsubscribe();
+
+    expect(nodeById(graph, "uid-app")?.metadata?.health).toMatchObject({
+      status: "Healthy",
+    });
+    expect(nodeById(graph, parentId)?.metadata?.health).toMatchObject({
+      status: "Healthy",
+    });
+  });
+
+  it("refreshes step conditions when the parent changes", async () => {
+    const { backend, updates, nextGraph, unsubscribe } = await subscribe();
+    const stepNode = updates[0].graph.nodes.find(
+      (node) => node.type.name === "ResourceFunction"
+    )!;
+    expect(stepNode.metadata?.condition).toEqual({
+      type: "MapReady",
+      name: "Map",
+    });
+
+    backend.apply(
+      parent([{ type: "MapReady", status: "True", reason: "Ready" }])
+    );
+    const graph = await nextGraph();
+    unsubscribe();
+
+    expect(nodeById(graph, stepNode.id)?.metadata?.condition).toMatchObject({
+      type: "MapReady",
+      status: "True",
+      reason: "Ready",
+    });
+  });
+});
@@ -0,0 +1,375 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { toKoreoError } from "./errors.js";
+import { getWorkflow } from "./workflows.js";
+import { getWorkflowGraph, updateStepConditions } from "./graphs.js";
+import { inflateWorkflowInstanceGraph } from "./inflated-graphs.js";
+import { resolveCRDRef, resolveKubernetesResource } from "./discovery.js";
+import { diffGraphs } from "./graph-diff.js";
+import {
+  collectManagedResources,
+  parseManagedResources,
+} from "./managed-resources.js";
+import { KoreoClient, WatchEvent, WatchHandle } from "../types/client.js";
+import {
+  Graph,
+  GraphChange,
+  InflatedGraph,
+  InflatedGraphUpdate,
+  KNode,
+  ManagedKubernetesResource,
+  ParentNode,
+  WorkflowInstanceGraphSubscriptionOptions,
+} from "../types/graph.js";
+import { KubernetesObjectWithSpecAndStatus } from "../types/kubernetes.js";
+import { KubernetesResource } from "../types/managed-resource.js";
+import { WorkflowParent } from "../types/workflow.js";
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// subscribeWorkflowInstanceGraph builds the instance graph and then watches
+// the parent and each of its managed resources, calling back with the changes
+// to the graph until the returned function is called. The first update
+// contains the whole graph as additions.
+//
+// Status changes are patched into the existing graph, which is then
+// re-inflated so that node health, the overall health and the steps'
+// conditions follow them. Structural changes, such as the managed-resources
+// annotation changing or a managed resource being created or deleted, cause
+// the graph to be rebuilt. Either way, the new graph is diffed against the
+// previous one.
+export const subscribeWorkflowInstanceGraph = async (
+  namespace: string,
+  workflowId: string,
+  instanceId: string,
+  callback: (update: InflatedGraphUpdate) => void,
+  options: WorkflowInstanceGraphSubscriptionOptions = {},
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<() => void> => {
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  let source: Graph = { nodes: [], edges: [] };
+  let graph: InflatedGraph = { nodes: [], edges: [] };
+  let subscribed = true;
+  let parentWatch: Promise<WatchHandle | undefined> | undefined;
+  const resourceWatches = new Map<string, Promise<WatchHandle | undefined>>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let rebuilding = false;
+  let rebuildPending = false;
+
+  const reportError = (err: unknown) => {
+    if (subscribed) {
+      options.onError?.(toKoreoError(err));
+    }
+  };
+
+  const later = (fn: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      if (subscribed) {
+        fn();
+      }
+    }, retryDelayMs);
+    timers.add(timer);
+  };
+
+  const update = (next: Graph) => {
+    const inflated = inflateWorkflowInstanceGraph(next, options.expanded);
+    const changes = toGraphChanges(graph, inflated);
+    source = next;
+    graph = inflated;
+    if (subscribed && changes.length > 0) {
+      callback({ graph, changes });
+    }
+  };
+
+  const rebuild = async () => {
+    const next = await getWorkflowGraph(
+      namespace,
+      workflowId,
+      instanceId,
+      client,
+      options
+    );
+    if (!subscribed) {
+      return;
+    }
+    update(next);
+    await syncResourceWatches();
+  };
+
+  // Rebuilds are coalesced so that a burst of events results in at most one
+  // rebuild in flight and one queued.
+  const scheduleRebuild = () => {
+    if (rebuilding) {
+      rebuildPending = true;
+      return;
+    }
+    rebuilding = true;
+    rebuild()
+      .catch(reportError)
+      .finally(() => {
+        rebuilding = false;
+        if (rebuildPending && subscribed) {
+          rebuildPending = false;
+          scheduleRebuild();
+        }
+      });
+  };
+
+  const onParentEvent = (event: WatchEvent<WorkflowParent>) => {
+    if (event.type === "BOOKMARK") {
+      return;
+    }
+    // A rebuild in flight may have fetched an older version of the object, so
+    // queue another rather than patching.
+    const parentNode = source.nodes.find(isParentNode);
+    if (
+      event.type === "ERROR" ||
+      event.type === "DELETED" ||
+      rebuilding ||
+      !parentNode ||
+      parentNode.krm.metadata?.uid !== event.object.metadata?.uid ||
+      JSON.stringify(parseManagedResources(event.object)) !==
+        JSON.stringify(parseManagedResources(parentNode.krm))
+    ) {
+      scheduleRebuild();
+      return;
+    }
+    update(
+      updateStepConditions(
+        {
+          ...source,
+          nodes: source.nodes.map(
+            (node): KNode =>
+              node === parentNode ? { ...parentNode, krm: event.object } : node
+          ),
+        },
+        event.object
+      )
+    );
+  };
+
+  const watchParent = async (): Promise<WatchHandle | undefined> => {
+    const workflow = await getWorkflow(workflowId, namespace, client);
+    if (!workflow?.spec.crdRef) {
+      return undefined;
+    }
+    const { apiGroup, version } = workflow.spec.crdRef;
+    const { plural, namespaced } = await resolveCRDRef(
+      workflow.spec.crdRef,
+      client
+    );
+    return client.backend.watchObjects<WorkflowParent>(
+      {
+        apiVersion: `${apiGroup}/${version}`,
+        plural,
+        namespace: namespaced ? namespace : undefined,
+        fieldSelector: `metadata.name=${instanceId}`,
+      },
+      onParentEvent,
+      (err) => {
+        if (err) {
+          reportError(err);
+        }
+        // Events may have been missed while the watch was down.
+        later(() => {
+          parentWatch = startWatch(watchParent);
+          scheduleRebuild();
+        });
+      }
+    );
+  };
+
+  const onResourceEvent = (
+    event: WatchEvent<KubernetesObjectWithSpecAndStatus>
+  ) => {
+    if (event.type === "BOOKMARK") {
+      return;
+    }
+    const next =
+      event.type === "ERROR" || event.type === "DELETED" || rebuilding
+        ? undefined
+        : replaceManagedResource(source, event.object);
+    if (next) {
+      update(next);
+    } else {
+      scheduleRebuild();
+    }
+  };
+
+  const watchResource = async (
+    key: string,
+    definition: KubernetesResource
+  ): Promise<WatchHandle | undefined> => {
+    const resource = await resolveKubernetesResource(definition, client);
+    return client.backend.watchObjects<KubernetesObjectWithSpecAndStatus>(
+      {
+        apiVersion: resource.apiVersion,
+        plural: resource.plural!,
+        namespace: resource.namespace,
+        fieldSelector: `metadata.name=${resource.name}`,
+      },
+      onResourceEvent,
+      (err) => {
+        if (err) {
+          reportError(err);
+        }
+        resourceWatches.delete(key);
+        later(scheduleRebuild);
+      }
+    );
+  };
+
+  const syncResourceWatches = async () => {
+    const parentNode = source.nodes.find(isParentNode);
+    const wanted = new Map(
+      (parentNode
+        ? collectManagedResources(parseManagedResources(parentNode.krm))
+        : []
+      ).map((resource) => [managedResourceKey(resource), resource])
+    );
+    resourceWatches.forEach((handle, key) => {
+      if (!wanted.has(key)) {
+        resourceWatches.delete(key);
+        stopWatch(handle);
+      }
+    });
+    wanted.forEach((resource, key) => {
+      if (!resourceWatches.has(key)) {
+        resourceWatches.set(
+          key,
+          startWatch(() => watchResource(key, resource))
+        );
+      }
+    });
+  };
+
+  const startWatch = (
+    watch: () => Promise<WatchHandle | undefined>
+  ): Promise<WatchHandle | undefined> => {
+    return watch()
+      .then((handle) => {
+        if (!subscribed) {
+          handle?.stop();
+        }
+        return handle;
+      })
+      .catch((err) => {
+        reportError(err);
+        return undefined;
+      });
+  };
+
+  await rebuild();
+  parentWatch = startWatch(watchParent);
+
+  return () => {
+    subscribed = false;
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+    if (parentWatch) {
+      stopWatch(parentWatch);
+    }
+    resourceWatches.forEach(stopWatch);
+    resourceWatches.clear();
+  };
+};
+
+const stopWatch = (handle: Promise<WatchHandle | undefined>) => {
+  handle.then((watch) => watch?.stop());
+};
+
+const isParentNode = (node: KNode): node is ParentNode => {
+  return node.type === "Parent";
+};
+
+// replaceManagedResource swaps a newer version of a managed resource, matched
+// by uid, into a graph, including its sub-workflows and RefSwitch cases. It
+// returns undefined if the graph doesn't have that resource yet.
+const replaceManagedResource = (
+  graph: Graph,
+  object: KubernetesObjectWithSpecAndStatus
+): Graph | undefined => {
+  let found = false;
+  const replaceResources = (
+    managedResources: ManagedKubernetesResource[] | undefined
+  ) =>
+    managedResources?.map((managedResource) => {
+      if (
+        !managedResource.resource ||
+        managedResource.resource.metadata?.uid !== object.metadata?.uid
+      ) {
+        return managedResource;
+      }
+      found = true;
+      return { ...managedResource, resource: object };
+    });
+  const replaceInGraph = (graph: Graph): Graph => ({
+    ...graph,
+    nodes: graph.nodes.map(replaceInNode),
+    managedResources: replaceResources(graph.managedResources),
+  });
+  const replaceInNode = <T extends KNode>(node: T): T => {
+    switch (node.type) {
+      case "ResourceFunction":
+      case "RefSwitch":
+        return {
+          ...node,
+          managedResources: replaceResources(node.managedResources),
+          ...(node.type === "RefSwitch"
+            ? {
+                caseNodes: Object.fromEntries(
+                  Object.entries(node.caseNodes).map(([key, caseNode]) => [
+                    key,
+                    replaceInNode(caseNode),
+                  ])
+                ),
+              }
+            : {}),
+        };
+      case "SubWorkflow":
+        return { ...node, workflowGraph: replaceInGraph(node.workflowGraph) };
+      default:
+        return node;
+    }
+  };
+  const next = replaceInGraph(graph);
+  return found ? next : undefined;
+};
+
+const managedResourceKey = (resource: KubernetesResource): string => {
+  return [
+    resource.apiVersion,
+    resource.kind,
+    resource.namespace ?? "",
+    resource.name,
+  ].join("/");
+};
+
+const toGraphChanges = (previous: InflatedGraph, next: InflatedGraph) => {
+  const graphDiff = diffGraphs(previous, next);
+  const changes: GraphChange[] = [
+    ...graphDiff.removedNodes.map(
+      (node): GraphChange => ({ type: "NodeRemoved", node })
+    ),
+    ...graphDiff.addedNodes.map(
+      (node): GraphChange => ({ type: "NodeAdded", node })
+    ),
+    ...graphDiff.modifiedNodes.map(
+      ({ before, after }): GraphChange => ({
+        type: "NodeChanged",
+        node: after,
+        previous: before,
+      })
+    ),
+    // A changed edge type is reported as a replacement.
+    ...[
+      ...graphDiff.removedEdges,
+      ...graphDiff.modifiedEdges.map(({ before }) => before),
+    ].map((edge): GraphChange => ({ type: "EdgeRemoved", edge })),
+    ...[
+      ...graphDiff.addedEdges,
+      ...graphDiff.modifiedEdges.map(({ after }) => after),
+    ].map((edge): GraphChange => ({ type: "EdgeAdded", edge })),
+  ];
+  return changes;
+};
@@ -0,0 +1,319 @@
+import { describe, expect, it } from "vitest";
+import { KubernetesObject } from "@kubernetes/client-node";
+import { getWorkflowGraph } from "./graphs.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { Graph, GraphBuildOptions, KNode } from "../types/graph.js";
+import { Step } from "../types/workflow.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+const workflow = (name: string, steps: Step[], crdKind?: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata(name),
+  spec: {
+    ...(crdKind
+      ? { crdRef: { apiGroup: "acme.io", version: "v1", kind: crdKind } }
+      : {}),
+    steps,
+  },
+});
+
+const valueFunction = (name: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ValueFunction",
+  metadata: metadata(name),
+  spec: { return: { value: "=inputs.value" } },
+});
+
+const resourceFunction = (name: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ResourceFunction",
+  metadata: metadata(name),
+  spec: {
+    apiConfig: { apiVersion: "v1", kind: "ConfigMap", name: "=inputs.name" },
+    resource: { data: { value: "=inputs.value" } },
+  },
+});
+
+const buildGraph = (
+  objects: KubernetesObject[],
+  workflowId: string,
+  instanceId?: string,
+  options: GraphBuildOptions = {}
+): Promise<Graph> => {
+  const client = createKoreoClient({
+    backend: createInMemoryBackend(objects),
+  });
+  return getWorkflowGraph(NAMESPACE, workflowId, instanceId, client, options);
+};
+
+const nodeName = (node: KNode): string | undefined => {
+  return "krm" in node ? node.krm.metadata?.name : undefined;
+};
+
+const edgeNames = (graph: Graph): string[] => {
+  const names = new Map(graph.nodes.map((node) => [node.id, nodeName(node)]));
+  return graph.edges
+    .map(
+      (edge) =>
+        `${names.get(edge.source)} -${edge.type}-> ${names.get(edge.target)}`
+    )
+    .sort();
+};
+
+describe("getWorkflowGraph", () => {
+  it("links steps to the workflow and to the steps they reference", async () => {
+    const graph = await buildGraph(
+      [
+        workflow("app", [
+          {
+            label: "config",
+            ref: { kind: "ValueFunction", name: "config" },
+            inputs: { value: "=parent.spec.value" },
+          },
+          {
+            label: "map",
+            ref: { kind: "ResourceFunction", name: "map" },
+            inputs: { name: "app", value: "=steps.config.value" },
+          },
+        ]),
+        valueFunction("config"),
+        resourceFunction("map"),
+      ],
+      "app"
+    );
+
+    expect(graph.errors).toEqual([]);
+    expect(graph.nodes.map((node) => [node.type, nodeName(node)])).toEqual(
+      expect.arrayContaining([
+        ["Workflow", "app"],
+        ["ValueFunction", "config"],
+        ["ResourceFunction", "map"],
+      ])
+    );
+    expect(edgeNames(graph)).toEqual([
+      "app -WorkflowToStep-> config",
+      "config -StepToStep-> map",
+    ]);
+  });
+
+  it("nests sub-workflows", async () => {
+    const graph = await buildGraph(
+      [
+        workflow("app", [
+          { label: "sub", ref: { kind: "Workflow", name: "sub" } },
+        ]),
+        workflow("sub", [
+          { label: "inner", ref: { kind: "ValueFunction", name: "config" } },
+        ]),
+        valueFunction("config"),
+      ],
+      "app"
+    );
+
+    const subWorkflow = graph.nodes.find((node) => node.type === "SubWorkflow");
+    expect(subWorkflow).toBeDefined();
+    if (subWorkflow?.type !== "SubWorkflow") {
+      return;
+    }
+    expect(
+      subWorkflow.workflowGraph.nodes.map((node) => nodeName(node))
+    ).toEqual(expect.arrayContaining(["sub", "config"]));
+  });
+
+  it("stops at a Workflow that references itself", async () => {
+    const graph = await buildGraph(
+      [
+        workflow("app", [
+          { label: "again", ref: { kind: "Workflow", name: "app" } },
+        ]),
+      ],
+      "app"
+    );
+
+    const workflowNode = graph.nodes.find((node) => node.type === "Workflow");
+    const cycle = graph.nodes.find((node) => node.type === "WorkflowCycle");
+    expect(cycle).toMatchObject({
+      workflowId: "app",
+      targetNodeId: workflowNode?.id,
+      cycle: ["app", "app"],
+    });
+    expect(graph.errors).toEqual([
+      expect.objectContaining({
+        reason: "InvalidResource",
+        kind: "Workflow",
+        name: "app",
+        stepLabel: "again",
+        message: "Workflow cycle detected: app -> app",
+      }),
+    ]);
+  });
+
+  it("stops at mutually recursive Workflows", async () => {
+    const graph = await buildGraph(
+      [
+        workflow("a", [
+          { label: "to-b", ref: { kind: "Workflow", name: "b" } },
+        ]),
+        workflow("b", [
+          { label: "to-a", ref: { kind: "Workflow", name: "a" } },
+        ]),
+      ],
+      "a"
+    );
+
+    const subWorkflow = graph.nodes.find((node) => node.type === "SubWorkflow");
+    if (subWorkflow?.type !== "SubWorkflow") {
+      throw new Error("expected a SubWorkflow node");
+    }
+    expect(
+      subWorkflow.workflowGraph.nodes.find(
+        (node) => node.type === "WorkflowCycle"
+      )
+    ).toMatchObject({
+      workflowId: "a",
+      targetNodeId: graph.nodes.find((node) => node.type === "Workflow")?.id,
+      cycle: ["a", "b", "a"],
+    });
+    expect(graph.errors).toEqual([
+      expect.objectContaining({
+        reason: "InvalidResource",
+        name: "a",
+        stepLabel: "to-a",
+        message: "Workflow cycle detected: a -> b -> a",
+      }),
+    ]);
+  });
+
+  it("records missing functions as errors", async () => {
+    const graph = await buildGraph(
+      [
+        workflow("app", [
+          { label: "missing", ref: { kind: "ValueFunction", name: "nope" } },
+        ]),
+      ],
+      "app"
+    );
+
+    expect(graph.errors).toEqual([
+      expect.objectContaining({
+        reason: "NotFound",
+        kind: "ValueFunction",
+        name: "nope",
+        stepLabel: "missing",
+      }),
+    ]);
+  });
+
+  it("records malformed workflows as errors", async () => {
+    const graph = await buildGraph(
+      [workflow("app", [{ label: "" } as Step])],
+      "app"
+    );
+
+    expect(graph.nodes).toEqual([]);
+    expect(graph.errors).toEqual([
+      expect.objectContaining({
+        reason: "InvalidResource",
+        kind: "Workflow",
+        name: "app",
+        message: expect.stringContaining("spec.steps[0].label"),
+      }),
+    ]);
+  });
+
+  it("adds the parent and its managed resources for an instance", async () => {
+    const managedResources = {
+      workflow: "app",
+      resources: {
+        map: {
+          apiVersion: "v1",
+          kind: "ConfigMap",
+          name: "app",
+          namespace: NAMESPACE,
+          readonly: false,
+          resourceFunction: "map",
+        },
+      },
+    };
+    const graph = await buildGraph(
+      [
+        workflow(
+          "app",
+          [{ label: "map", ref: { kind: "ResourceFunction", name: "map" } }],
+          "App"
+        ),
+        resourceFunction("map"),
+        {
+          apiVersion: "acme.io/v1",
+          kind: "App",
+          metadata: {
+            ...metadata("my-app"),
+            annotations: {
+              "koreo.dev/managed-resources": JSON.stringify(managedResources),
+            },
+          },
+        },
+        { apiVersion: "v1", kind: "ConfigMap", metadata: metadata("app") },
+      ],
+      "app",
+      "my-app"
+    );
+
+    expect(graph.errors).toEqual([]);
+    expect(edgeNames(graph)).toContain("my-app -ParentToWorkflow-> app");
+    const step = graph.nodes.find((node) => node.type === "ResourceFunction");
+    expect(
+      step?.type === "ResourceFunction" &&
+        step.managedResources?.map(
+          ({ definition, resource }) =>
+            `${definition.kind}/${resource?.metadata?.name}`
+        )
+    ).toEqual(["ConfigMap/app"]);
+  });
+
+  it("resolves ResourceTemplate names from literal inputs", async () => {
+    const bucketFunction = {
+      ...resourceFunction("bucket"),
+      spec: {
+        apiConfig: { apiVersion: "v1", kind: "Bucket", name: "bucket" },
+        resourceTemplateRef: { name: '="bucket-" + inputs.tiers[0].name' },
+      },
+    };
+    const template = {
+      apiVersion: "koreo.dev/v1beta1",
+      kind: "ResourceTemplate",
+      metadata: metadata("bucket-gold"),
+      spec: { template: {} },
+    };
+    const graph = await buildGraph(
+      [
+        workflow("app", [
+          {
+            label: "bucket",
+            ref: { kind: "ResourceFunction", name: "bucket" },
+            inputs: { tiers: [{ name: "gold" }] },
+          },
+        ]),
+        bucketFunction,
+        template,
+      ],
+      "app",
+      undefined,
+      { resourceTemplates: true }
+    );
+
+    expect(graph.errors).toEqual([]);
+    expect(edgeNames(graph)).toContain(
+      "bucket -FunctionToTemplate-> bucket-gold"
+    );
+  });
+});
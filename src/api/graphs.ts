@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from "uuid";
-import { getWorkflow, getWorkflowInstance } from "./workflows";
+import { getWorkflow, getWorkflowInstance } from "./workflows.js";
 import {
   KNode,
   KEdge,
@@ -10,29 +10,51 @@ import {
   SubWorkflowNode,
   RefSwitchNode,
   WorkflowNode,
+  WorkflowCycleNode,
+  ResourceTemplateNode,
   ValueFunctionNode,
   ResourceFunctionNode,
   FunctionNode,
   ManagedKubernetesResource,
-} from "../types/graph";
-import { Step, WorkflowParent, Workflow, RefSwitch } from "../types/workflow";
-import { getResourceFunction, getValueFunction } from "./functions";
-import { ValueFunction, ResourceFunction } from "../types/function";
-import { KubernetesObjectWithSpecAndStatus } from "../types/kubernetes";
+  GraphError,
+  GraphBuildOptions,
+  StepCondition,
+} from "../types/graph.js";
+import {
+  Step,
+  WorkflowParent,
+  Workflow,
+  RefSwitch,
+} from "../types/workflow.js";
+import { getResourceFunction, getValueFunction } from "./functions.js";
+import { ValueFunction, ResourceFunction } from "../types/function.js";
+import { ResourceTemplate } from "../types/resource-template.js";
+import { ExpressionNode } from "../types/expression.js";
+import { getResourceTemplate } from "./resource-templates.js";
+import { getLocals, getResourceTemplateRef } from "./function-specs.js";
+import { KubernetesObjectWithSpecAndStatus } from "../types/kubernetes.js";
 import {
   ManagedResources,
   ManagedResource,
   KubernetesResource,
-} from "../types/managed-resource";
+} from "../types/managed-resource.js";
 import {
   parseManagedResources,
+  validateManagedResources,
   isKubernetesResource,
   isKubernetesResourceOrManagedResourcesArray,
   isManagedResources,
-} from "./managed-resources";
-import { getK8sObjectApi } from "./kubernetes";
-
-const WORKFLOW_STEP_DEPENDENCY_REGEX = /steps\.([a-zA-Z0-9_-]+)/g;
+} from "./managed-resources.js";
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { KoreoClient } from "../types/client.js";
+import { KoreoErrorResource } from "../types/errors.js";
+import { toKoreoError, ExpressionSyntaxError } from "./errors.js";
+import { formatSchemaIssues } from "./schemas.js";
+import { isRecord } from "./records.js";
+import { resolveResource } from "./discovery.js";
+import { createFetchContext, FetchContext } from "./fetch-context.js";
+import { findStepReferences } from "./step-references.js";
+import { asReference, isExpression, parseExpression } from "./expressions.js";
 
 type DedupedGraph = {
   nodes: Record<string, KNode>;
@@ -40,21 +62,51 @@ type DedupedGraph = {
   managedResources: ManagedKubernetesResource[];
 };
 
+// GraphBuildContext is shared by every (sub-)graph built for a single
+// getWorkflowGraph call. Sub-workflows are built once for their structure and
+// again for each forEach iteration, so all lookups go through the fetch
+// context to avoid refetching the same objects.
+type GraphBuildContext = {
+  client: KoreoClient;
+  errors: GraphError[];
+  fetches: FetchContext;
+  resourceTemplates: boolean;
+};
+
+// The Workflows a (sub-)graph is nested in, outermost first, used to detect
+// Workflows that reference themselves.
+type WorkflowAncestor = {
+  name: string;
+  nodeId: string;
+};
+
 export const getWorkflowGraph = async (
   namespace: string,
   workflowId: string,
-  instanceId?: string
+  instanceId?: string,
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: GraphBuildOptions = {}
 ): Promise<Graph> => {
+  const context: GraphBuildContext = {
+    client,
+    errors: [],
+    fetches: createFetchContext(options.concurrency),
+    resourceTemplates: options.resourceTemplates ?? false,
+  };
   const { graph } = await getWorkflowGraphWithLeafNodes(
+    context,
+    [],
     namespace,
     workflowId,
     undefined,
     instanceId
   );
-  return graph;
+  return { ...graph, errors: context.errors };
 };
 
 const getWorkflowGraphWithLeafNodes = async (
+  context: GraphBuildContext,
+  ancestry: WorkflowAncestor[],
   namespace: string,
   workflowId: string,
   stepLabel?: string,
@@ -68,7 +120,15 @@ const getWorkflowGraphWithLeafNodes = async (
   const leafNodes: string[] = [];
   const stepNodes: Record<string, string> = {}; // Map step label to node id
 
-  const workflow = await getWorkflow(workflowId, namespace);
+  const workflow = await fetchOrRecordError(
+    context,
+    { kind: "Workflow", name: workflowId, namespace },
+    stepLabel,
+    () =>
+      context.fetches.fetch(`Workflow/${namespace}/${workflowId}`, () =>
+        getWorkflow(workflowId, namespace, context.client)
+      )
+  );
   if (!workflow) {
     return { graph: dedupedGraphToGraph(graph), leafNodes };
   }
@@ -76,13 +136,30 @@ const getWorkflowGraphWithLeafNodes = async (
   // Create a node for the Workflow itself.
   const workflowNode = createWorkflowNode(workflow, stepLabel);
   graph.nodes[workflowNode.id] = workflowNode;
+  const stepAncestry = [
+    ...ancestry,
+    { name: workflowId, nodeId: workflowNode.id },
+  ];
 
   // Create a node for the Workflow parent if an instanceId is specified with
   // an edge to the Workflow node. Also parse the ManagedResources on the
   // parent.
   let parentNode = undefined;
   if (instanceId) {
-    const parent = await getWorkflowInstance(workflow, instanceId);
+    const parent = await fetchOrRecordError(
+      context,
+      {
+        kind: workflow.spec.crdRef?.kind ?? "Parent",
+        name: instanceId,
+        namespace,
+      },
+      stepLabel,
+      () =>
+        context.fetches.fetch(
+          `Parent/${workflow.spec.crdRef?.apiGroup}/${workflow.spec.crdRef?.kind}/${namespace}/${instanceId}`,
+          () => getWorkflowInstance(workflow, instanceId, context.client)
+        )
+    );
     if (!parent) {
       return {
         graph: dedupedGraphToGraph(graph),
@@ -93,13 +170,34 @@ const getWorkflowGraphWithLeafNodes = async (
     graph.nodes[parentNode.id] = parentNode;
     const parentEdge = createEdge(parentNode, workflowNode, "ParentToWorkflow");
     graph.edges[parentEdge.id] = parentEdge;
+    const annotationIssues = validateManagedResources(parent);
+    if (annotationIssues.length > 0) {
+      recordError(context, {
+        reason: "InvalidResource",
+        message: `Invalid managed-resources annotation: ${formatSchemaIssues(
+          annotationIssues
+        )}`,
+        kind: workflow.spec.crdRef?.kind ?? "Parent",
+        name: instanceId,
+        namespace,
+        stepLabel,
+      });
+    }
     managedResources = parseManagedResources(parent);
   }
 
   // Create nodes for all steps.
   await Promise.all(
     workflow.spec.steps.map((step) =>
-      addStepNodes(namespace, step, graph, stepNodes, managedResources)
+      addStepNodes(
+        context,
+        stepAncestry,
+        namespace,
+        step,
+        graph,
+        stepNodes,
+        managedResources
+      )
     )
   );
 
@@ -160,6 +258,10 @@ const getWorkflowGraphWithLeafNodes = async (
     graph.edges[edge.id] = edge;
   });
 
+  if (parentNode) {
+    addStepConditions(workflow.spec.steps, stepNodes, graph, parentNode.krm);
+  }
+
   // Calculate leaf nodes by taking the difference of all nodes and nodes with
   // dependents.
   const allNodes = new Set(Object.values(stepNodes));
@@ -179,37 +281,86 @@ const findAndAddStepDependencies = (
   graph: DedupedGraph,
   nodesWithDependents: Set<string>
 ): boolean => {
-  let foundDependency = false;
-
-  const processValue = (val: unknown) => {
-    if (typeof val === "string" && val.trim().startsWith("=")) {
-      const matches = [...val.matchAll(WORKFLOW_STEP_DEPENDENCY_REGEX)];
-      matches.forEach((match) => {
-        const parentLabel = match[1];
-        const parentNodeId = stepNodes[parentLabel];
-        if (parentNodeId && graph.nodes[parentNodeId]) {
-          const edge = createEdge(
-            graph.nodes[parentNodeId],
-            stepNode,
-            "StepToStep"
-          );
-          graph.edges[edge.id] = edge;
-          nodesWithDependents.add(parentNodeId);
-        }
-        foundDependency = true;
-      });
-    } else if (Array.isArray(val)) {
-      val.forEach((item) => processValue(item));
-    } else if (typeof val === "object" && val !== null) {
-      Object.values(val).forEach((nestedVal) => processValue(nestedVal));
+  const references = findStepReferences(value, "");
+  references.forEach(({ label }) => {
+    const parentNodeId = stepNodes[label];
+    if (parentNodeId && graph.nodes[parentNodeId]) {
+      const edge = createEdge(
+        graph.nodes[parentNodeId],
+        stepNode,
+        "StepToStep"
+      );
+      graph.edges[edge.id] = edge;
+      nodesWithDependents.add(parentNodeId);
     }
+  });
+  return references.length > 0;
+};
+
+// addStepConditions attaches the parent's status for each step's declared
+// condition to the step's node as metadata.condition.
+const addStepConditions = (
+  steps: Step[],
+  stepNodes: Record<string, string>,
+  graph: DedupedGraph,
+  parent: WorkflowParent
+) => {
+  steps.forEach((step) => {
+    const node = graph.nodes[stepNodes[step.label]];
+    if (!step.condition || !node) {
+      return;
+    }
+    node.metadata = {
+      ...node.metadata,
+      condition: getStepCondition(step.condition, parent),
+    };
+  });
+};
+
+// updateStepConditions refreshes the metadata.condition of a Workflow
+// instance graph's step nodes from a newer version of the parent.
+export const updateStepConditions = (
+  graph: Graph,
+  parent: WorkflowParent
+): Graph => {
+  return {
+    ...graph,
+    nodes: graph.nodes.map((node): KNode => {
+      const condition = node.metadata?.condition as StepCondition | undefined;
+      if (!condition) {
+        return node;
+      }
+      return {
+        ...node,
+        metadata: {
+          ...node.metadata,
+          condition: getStepCondition(condition, parent),
+        },
+      };
+    }),
   };
+};
 
-  processValue(value);
-  return foundDependency;
+const getStepCondition = (
+  { type, name }: { type: string; name: string },
+  parent: WorkflowParent
+): StepCondition => {
+  const condition: StepCondition = { type, name };
+  const reported = parent.status?.conditions?.find(
+    (condition) => condition.type === type
+  );
+  if (reported) {
+    condition.status = reported.status;
+    condition.reason = reported.reason;
+    condition.message = reported.message;
+    condition.lastTransitionTime = reported.lastTransitionTime;
+  }
+  return condition;
 };
 
 const addStepNodes = async (
+  context: GraphBuildContext,
+  ancestry: WorkflowAncestor[],
   namespace: string,
   step: Step,
   graph: DedupedGraph,
@@ -218,6 +369,14 @@ const addStepNodes = async (
 ) => {
   if (!step.refSwitch && !step.ref) {
     // This is an invalid step.
+    recordError(context, {
+      reason: "InvalidResource",
+      message: `Step ${step.label} has neither a ref nor a refSwitch`,
+      kind: "Step",
+      name: step.label,
+      namespace,
+      stepLabel: step.label,
+    });
     return;
   }
 
@@ -226,11 +385,14 @@ const addStepNodes = async (
   if (step.refSwitch) {
     // Handle refSwitch step.
     await addRefSwitchNode(
+      context,
+      ancestry,
       graph,
       stepNodes,
       step.refSwitch,
       namespace,
       stepLabel,
+      step.inputs,
       managedResources?.resources?.[stepLabel]
     );
     return;
@@ -240,6 +402,8 @@ const addStepNodes = async (
   if (step.ref!.kind === "Workflow") {
     // Recurse on sub-Workflow and add its nodes/edges.
     const subWorkflowNode = await getSubWorkflowNode(
+      context,
+      ancestry,
       namespace,
       stepLabel,
       step.ref!.name,
@@ -251,7 +415,10 @@ const addStepNodes = async (
     if (subWorkflowNode) {
       graph.nodes[subWorkflowNode.id] = subWorkflowNode;
       stepNodes[stepLabel] = subWorkflowNode.id;
-      if (subWorkflowNode.workflowGraph.managedResources) {
+      if (
+        subWorkflowNode.type === "SubWorkflow" &&
+        subWorkflowNode.workflowGraph.managedResources
+      ) {
         graph.managedResources.push(
           ...subWorkflowNode.workflowGraph.managedResources
         );
@@ -263,9 +430,15 @@ const addStepNodes = async (
   // Handle simple Function step.
   let stepNode: FunctionNode | null;
   if (step.ref!.kind === "ValueFunction") {
-    stepNode = await getValueFunctionNode(namespace, step.ref!.name, stepLabel);
+    stepNode = await getValueFunctionNode(
+      context,
+      namespace,
+      step.ref!.name,
+      stepLabel
+    );
   } else {
     stepNode = await getResourceFunctionNode(
+      context,
       namespace,
       step.ref!.name,
       stepLabel,
@@ -277,6 +450,17 @@ const addStepNodes = async (
     if (stepNode && stepNode.managedResources) {
       graph.managedResources.push(...stepNode.managedResources);
     }
+    if (stepNode) {
+      await addResourceTemplateNodes(
+        context,
+        graph,
+        stepNode,
+        [stepNode.krm],
+        namespace,
+        stepLabel,
+        step.inputs
+      );
+    }
   }
   if (stepNode) {
     graph.nodes[stepNode.id] = stepNode;
@@ -285,11 +469,20 @@ const addStepNodes = async (
 };
 
 const getValueFunctionNode = async (
+  context: GraphBuildContext,
   namespace: string,
   name: string,
   stepLabel: string
 ): Promise<ValueFunctionNode | null> => {
-  const func = await getValueFunction(name, namespace);
+  const func = await fetchOrRecordError(
+    context,
+    { kind: "ValueFunction", name, namespace },
+    stepLabel,
+    () =>
+      context.fetches.fetch(`ValueFunction/${namespace}/${name}`, () =>
+        getValueFunction(name, namespace, context.client)
+      )
+  );
   if (!func) {
     return null;
   }
@@ -298,54 +491,112 @@ const getValueFunctionNode = async (
 };
 
 const getResourceFunctionNode = async (
+  context: GraphBuildContext,
   namespace: string,
   name: string,
   stepLabel: string,
   managedResource?: KubernetesResource[] // it's a list because it could be within a forEach
 ): Promise<ResourceFunctionNode | null> => {
-  const func = await getResourceFunction(name, namespace);
+  const func = await fetchOrRecordError(
+    context,
+    { kind: "ResourceFunction", name, namespace },
+    stepLabel,
+    () =>
+      context.fetches.fetch(`ResourceFunction/${namespace}/${name}`, () =>
+        getResourceFunction(name, namespace, context.client)
+      )
+  );
   if (!func) {
     return null;
   }
 
-  const node = createResourceFunctionNode(func as ResourceFunction, stepLabel);
+  const node = createResourceFunctionNode(func, stepLabel);
 
   if (!managedResource) {
     return node;
   }
 
   await Promise.all(
-    managedResource.map((resource) => addManagedResource(resource, node))
+    managedResource.map((resource) =>
+      addManagedResource(context, resource, node)
+    )
   );
 
   return node;
 };
 
 const addManagedResource = async (
+  context: GraphBuildContext,
   managedResource: KubernetesResource,
   parentNode: ResourceFunctionNode
 ) => {
-  const k8sResource = await getKubernetesResource(managedResource);
+  const [definition, k8sResource] = await Promise.all([
+    resolvePlural(context, managedResource).catch(() => managedResource),
+    getKubernetesResource(context, managedResource),
+  ]);
   if (!parentNode.managedResources) {
     parentNode.managedResources = [];
   }
   const resource = {
-    definition: managedResource,
+    definition,
     resource: k8sResource,
   };
   parentNode.managedResources.push(resource);
 };
 
+const resolvePlural = async (
+  context: GraphBuildContext,
+  resource: KubernetesResource
+): Promise<KubernetesResource> => {
+  if (resource.plural) {
+    return resource;
+  }
+  const { plural } = await context.fetches.fetch(
+    `Discovery/${resource.apiVersion}/${resource.kind}`,
+    () => resolveResource(resource.apiVersion, resource.kind, context.client)
+  );
+  return { ...resource, plural };
+};
+
 const getSubWorkflowNode = async (
+  context: GraphBuildContext,
+  ancestry: WorkflowAncestor[],
   namespace: string,
   stepLabel: string,
   subWorkflowId: string,
   managedResources?: ManagedResources[] // it's a list because it could be within a forEach
-): Promise<SubWorkflowNode | null> => {
+): Promise<SubWorkflowNode | WorkflowCycleNode | null> => {
+  // Stop rather than recurse forever if the Workflow is one of our ancestors.
+  const cycleStart = ancestry.findIndex(
+    (ancestor) => ancestor.name === subWorkflowId
+  );
+  if (cycleStart !== -1) {
+    const cycleNode = createWorkflowCycleNode(
+      ancestry.slice(cycleStart),
+      subWorkflowId,
+      stepLabel
+    );
+    recordError(context, {
+      reason: "InvalidResource",
+      message: `Workflow cycle detected: ${cycleNode.cycle.join(" -> ")}`,
+      kind: "Workflow",
+      name: subWorkflowId,
+      namespace,
+      stepLabel,
+    });
+    return cycleNode;
+  }
+
   // First get the graph structure
   const { graph: workflowGraph, leafNodes } =
-    await getWorkflowGraphWithLeafNodes(namespace, subWorkflowId, stepLabel);
-  if (!workflowGraph.nodes) {
+    await getWorkflowGraphWithLeafNodes(
+      context,
+      ancestry,
+      namespace,
+      subWorkflowId,
+      stepLabel
+    );
+  if (workflowGraph.nodes.length === 0) {
     return null;
   }
   const subWorkflowNode = createSubWorkflowNode(
@@ -363,6 +614,8 @@ const getSubWorkflowNode = async (
   const subWorkflowResources: ManagedKubernetesResource[] = [];
   for (const iterationManagedResources of managedResources) {
     const { graph: workflowGraph } = await getWorkflowGraphWithLeafNodes(
+      context,
+      ancestry,
       namespace,
       subWorkflowId,
       stepLabel,
@@ -398,25 +651,38 @@ const getSubWorkflowNode = async (
 };
 
 const getKubernetesResource = async (
+  context: GraphBuildContext,
   resource: KubernetesResource
 ): Promise<KubernetesObjectWithSpecAndStatus | null> => {
-  const k8sApi = getK8sObjectApi();
-
+  const { apiVersion, kind, name, namespace } = resource;
   try {
-    const response = await k8sApi.read({
-      apiVersion: resource.apiVersion,
+    return await context.fetches.fetch(
+      `Object/${apiVersion}/${kind}/${namespace ?? ""}/${name}`,
+      () =>
+        context.client.backend.readObject<KubernetesObjectWithSpecAndStatus>({
+          apiVersion,
+          kind,
+          name,
+          namespace,
+        })
+    );
+  } catch (err) {
+    // A managed resource that doesn't exist (yet) is represented by a null
+    // resource rather than an error.
+    const error = toKoreoError(err, {
       kind: resource.kind,
-      metadata: {
+      name: resource.name,
+      namespace: resource.namespace,
+    });
+    if (error.reason !== "NotFound") {
+      recordError(context, {
+        reason: error.reason,
+        message: error.message,
+        kind: resource.kind,
         name: resource.name,
         namespace: resource.namespace,
-      },
-    });
-
-    return response as KubernetesObjectWithSpecAndStatus;
-  } catch (err) {
-    console.error(
-      `Failed to get resource ${resource.kind}/${resource.name}: ${err}`
-    );
+      });
+    }
     return null;
   }
 };
@@ -484,11 +750,14 @@ const getManagedResourcesForResourceFunction = (
 };
 
 const addRefSwitchNode = async (
+  context: GraphBuildContext,
+  ancestry: WorkflowAncestor[],
   graph: DedupedGraph,
   stepNodes: Record<string, string>,
   refSwitch: RefSwitch,
   namespace: string,
   stepLabel: string,
+  inputs: Record<string, unknown> | undefined,
   managedResource?: ManagedResource
 ) => {
   const caseNodes: Record<string, LogicNode> = {};
@@ -498,13 +767,18 @@ const addRefSwitchNode = async (
     if (switchCase.kind === "Workflow") {
       // Recurse on sub-workflow and add its nodes/edges.
       const subWorkflowNode = await getSubWorkflowNode(
+        context,
+        ancestry,
         namespace,
         stepLabel,
         switchCase.name,
         getManagedResourcesForWorkflow(switchCase.name, managedResource)
       );
       logicNode = subWorkflowNode;
-      if (subWorkflowNode?.workflowGraph.managedResources) {
+      if (
+        subWorkflowNode?.type === "SubWorkflow" &&
+        subWorkflowNode.workflowGraph.managedResources
+      ) {
         refSwitchResources.push(
           ...subWorkflowNode.workflowGraph.managedResources
         );
@@ -512,12 +786,14 @@ const addRefSwitchNode = async (
     } else {
       if (switchCase.kind === "ValueFunction") {
         logicNode = await getValueFunctionNode(
+          context,
           namespace,
           switchCase.name,
           stepLabel
         );
       } else {
         const resourceFuncNode = await getResourceFunctionNode(
+          context,
           namespace,
           switchCase.name,
           stepLabel,
@@ -545,9 +821,180 @@ const addRefSwitchNode = async (
   graph.nodes[refSwitchNode.id] = refSwitchNode;
   stepNodes[stepLabel] = refSwitchNode.id;
   graph.managedResources.push(...refSwitchResources);
+  await addResourceTemplateNodes(
+    context,
+    graph,
+    refSwitchNode,
+    Object.values(caseNodes)
+      .filter(
+        (caseNode): caseNode is ResourceFunctionNode =>
+          caseNode.type === "ResourceFunction"
+      )
+      .map((caseNode) => caseNode.krm),
+    namespace,
+    stepLabel,
+    inputs
+  );
   return;
 };
 
+// addResourceTemplateNodes links a step's node to the ResourceTemplates used
+// by its ResourceFunctions, if the graph is being built with them.
+const addResourceTemplateNodes = async (
+  context: GraphBuildContext,
+  graph: DedupedGraph,
+  stepNode: KNode,
+  functions: ResourceFunction[],
+  namespace: string,
+  stepLabel: string,
+  inputs?: Record<string, unknown>
+) => {
+  if (!context.resourceTemplates) {
+    return;
+  }
+  const templates = await Promise.all(
+    functions.map((func) =>
+      getFunctionResourceTemplate(context, namespace, func, stepLabel, inputs)
+    )
+  );
+  templates.forEach((template) => {
+    if (!template) {
+      return;
+    }
+    const templateNode = createResourceTemplateNode(template);
+    graph.nodes[templateNode.id] = templateNode;
+    const edge = createEdge(stepNode, templateNode, "FunctionToTemplate");
+    graph.edges[edge.id] = edge;
+  });
+};
+
+const getFunctionResourceTemplate = async (
+  context: GraphBuildContext,
+  namespace: string,
+  func: ResourceFunction,
+  stepLabel: string,
+  inputs?: Record<string, unknown>
+): Promise<ResourceTemplate | null> => {
+  const ref = getResourceTemplateRef(func);
+  if (!ref) {
+    return null;
+  }
+  const name = resolveTemplateName(ref.name, {
+    inputs: inputs ?? {},
+    locals: getLocals(func),
+  });
+  if (!name) {
+    // The name is only known at runtime.
+    return null;
+  }
+  return fetchOrRecordError(
+    context,
+    { kind: "ResourceTemplate", name, namespace },
+    stepLabel,
+    () =>
+      context.fetches.fetch(`ResourceTemplate/${namespace}/${name}`, () =>
+        getResourceTemplate(name, namespace, context.client)
+      )
+  );
+};
+
+// resolveTemplateName resolves a template name that's either a literal or an
+// expression concatenating string literals and inputs or locals that are
+// themselves literals, e.g. `="bucket-" + inputs.tier`. Returns undefined if
+// the name depends on anything else.
+const resolveTemplateName = (
+  name: string,
+  values: { inputs: Record<string, unknown>; locals: Record<string, unknown> }
+): string | undefined => {
+  if (!isExpression(name)) {
+    return name;
+  }
+  try {
+    return resolveStaticString(parseExpression(name), values);
+  } catch (err) {
+    if (err instanceof ExpressionSyntaxError) {
+      return undefined;
+    }
+    throw err;
+  }
+};
+
+const resolveStaticString = (
+  node: ExpressionNode,
+  values: { inputs: Record<string, unknown>; locals: Record<string, unknown> }
+): string | undefined => {
+  if (node.type === "Literal") {
+    return node.kind === "string" ? (node.value as string) : undefined;
+  }
+  if (node.type === "Binary" && node.operator === "+") {
+    const left = resolveStaticString(node.left, values);
+    const right = resolveStaticString(node.right, values);
+    return left !== undefined && right !== undefined ? left + right : undefined;
+  }
+  const reference = asReference(node);
+  if (
+    !reference ||
+    (reference.root !== "inputs" && reference.root !== "locals")
+  ) {
+    return undefined;
+  }
+  const value = reference.path.reduce<unknown>((current, key) => {
+    if (Array.isArray(current)) {
+      return current[Number(key)];
+    }
+    return isRecord(current) ? current[key] : undefined;
+  }, values[reference.root]);
+  return typeof value === "string" && !isExpression(value) ? value : undefined;
+};
+
+// fetchOrRecordError runs a fetch for a graph node, recording a GraphError
+// if the object is missing or couldn't be fetched so that the caller can skip
+// the node without losing track of why.
+const fetchOrRecordError = async <T>(
+  context: GraphBuildContext,
+  resource: Required<KoreoErrorResource>,
+  stepLabel: string | undefined,
+  fetch: () => Promise<T | null>
+): Promise<T | null> => {
+  try {
+    const result = await fetch();
+    if (!result) {
+      recordError(context, {
+        reason: "NotFound",
+        message: `${resource.kind} ${resource.namespace}/${resource.name} not found`,
+        ...resource,
+        stepLabel,
+      });
+    }
+    return result;
+  } catch (err) {
+    const error = toKoreoError(err, resource);
+    recordError(context, {
+      reason: error.reason,
+      message: error.message,
+      ...resource,
+      stepLabel,
+    });
+    return null;
+  }
+};
+
+// Sub-workflows are built once per forEach iteration, so the same error can be
+// encountered several times.
+const recordError = (context: GraphBuildContext, error: GraphError) => {
+  const isDuplicate = context.errors.some(
+    (existing) =>
+      existing.reason === error.reason &&
+      existing.kind === error.kind &&
+      existing.name === error.name &&
+      existing.namespace === error.namespace &&
+      existing.stepLabel === error.stepLabel
+  );
+  if (!isDuplicate) {
+    context.errors.push(error);
+  }
+};
+
 const createWorkflowNode = (
   workflow: Workflow,
   stepLabel?: string
@@ -632,6 +1079,34 @@ const createSubWorkflowNode = (
   };
 };
 
+const createResourceTemplateNode = (
+  template: ResourceTemplate
+): ResourceTemplateNode => {
+  const { name, namespace, uid } = template.metadata ?? {};
+  return {
+    id: `template-${uid || `${namespace}/${name}`}`,
+    krm: template,
+    type: "ResourceTemplate",
+    dependents: {},
+  };
+};
+
+const createWorkflowCycleNode = (
+  cycle: WorkflowAncestor[],
+  workflowId: string,
+  stepLabel: string
+): WorkflowCycleNode => {
+  return {
+    id: `${stepLabel}-cycle-${cycle[0].nodeId}`,
+    type: "WorkflowCycle",
+    workflowId,
+    targetNodeId: cycle[0].nodeId,
+    cycle: [...cycle.map((ancestor) => ancestor.name), workflowId],
+    dependents: {},
+    metadata: { label: stepLabel },
+  };
+};
+
 const createEdge = (source: KNode, target: KNode, type: EdgeType): KEdge => {
   source.dependents[target.id] = target;
   return {
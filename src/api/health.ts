@@ -0,0 +1,152 @@
+import { Graph, KNode } from "../types/graph.js";
+import {
+  KubernetesCondition,
+  KubernetesObjectWithSpecAndStatus,
+} from "../types/kubernetes.js";
+import { GraphHealth, Health, HealthStatus } from "../types/health.js";
+
+// Condition reasons and types that indicate a failure rather than work in
+// progress, e.g. Koreo's "PermFail" reason or a Deployment's ReplicaFailure.
+const FAILURE_PATTERN = /fail|error|invalid|degraded|stalled/i;
+
+// When rolling up, the most severe status wins. Unknown only wins when
+// there's nothing else.
+const SEVERITY: Record<HealthStatus, number> = {
+  Unknown: 0,
+  Healthy: 1,
+  Progressing: 2,
+  Missing: 3,
+  Degraded: 4,
+};
+
+// getResourceHealth interprets an object's Ready condition, falling back to
+// its terminalCondition and then its other conditions. An object without
+// any conditions is Healthy as long as it exists.
+export const getResourceHealth = (
+  resource: KubernetesObjectWithSpecAndStatus | null | undefined
+): Health => {
+  if (!resource) {
+    return { status: "Missing", message: "Resource does not exist" };
+  }
+  const conditions = resource.status?.conditions ?? [];
+  const ready = conditions.find((condition) => condition.type === "Ready");
+  if (ready) {
+    return getConditionHealth(ready);
+  }
+
+  const terminal = resource.status?.terminalCondition;
+  if (terminal?.state) {
+    const message = terminal.message || terminal.reason || terminal.state;
+    if (/SUCCEEDED/i.test(terminal.state)) {
+      return { status: "Healthy", message };
+    }
+    if (/FAILED/i.test(terminal.state)) {
+      return { status: "Degraded", message };
+    }
+    return { status: "Progressing", message };
+  }
+
+  const failed = conditions.find(
+    (condition) =>
+      condition.status === "True" && FAILURE_PATTERN.test(condition.type)
+  );
+  if (failed) {
+    return { status: "Degraded", message: failed.message || failed.type };
+  }
+  const pending = conditions.find((condition) => condition.status !== "True");
+  if (pending) {
+    return {
+      status: "Progressing",
+      message: pending.message || `${pending.type} is ${pending.status}`,
+    };
+  }
+  return { status: "Healthy" };
+};
+
+// combineHealth rolls up the health of several nodes into one.
+export const combineHealth = (healths: Health[]): Health => {
+  return healths.reduce<Health>(
+    (worst, health) =>
+      SEVERITY[health.status] > SEVERITY[worst.status] ? health : worst,
+    { status: "Unknown" }
+  );
+};
+
+// getGraphHealth computes the health of every node in a Workflow instance
+// graph. Functions and RefSwitches take the health of their managed
+// resources, sub-workflows and Workflows roll up their steps, and the
+// instance combines the parent's own conditions with the Workflow's.
+export const getGraphHealth = (graph: Graph): GraphHealth => {
+  const nodes: Record<string, Health> = {};
+  const workflow = getWorkflowHealth(graph, nodes);
+  const parent = graph.nodes.find((node) => node.type === "Parent");
+  const overall = parent
+    ? combineHealth([nodes[parent.id], workflow])
+    : workflow;
+  return { ...overall, nodes };
+};
+
+const getWorkflowHealth = (
+  graph: Graph,
+  nodes: Record<string, Health>
+): Health => {
+  const steps = graph.nodes.filter(
+    (node) =>
+      node.type !== "Workflow" &&
+      node.type !== "Parent" &&
+      node.type !== "ResourceTemplate"
+  );
+  const health = combineHealth(steps.map((node) => getNodeHealth(node, nodes)));
+  graph.nodes.forEach((node) => {
+    if (node.type === "Workflow") {
+      nodes[node.id] = health;
+    } else if (!nodes[node.id]) {
+      nodes[node.id] = getNodeHealth(node, nodes);
+    }
+  });
+  return health;
+};
+
+const getNodeHealth = (node: KNode, nodes: Record<string, Health>): Health => {
+  let health: Health;
+  switch (node.type) {
+    case "ResourceFunction":
+      health = combineHealth(
+        (node.managedResources ?? []).map((managedResource) =>
+          getResourceHealth(managedResource.resource)
+        )
+      );
+      break;
+    case "RefSwitch":
+      health = combineHealth(
+        Object.values(node.caseNodes).map((caseNode) =>
+          getNodeHealth(caseNode, nodes)
+        )
+      );
+      break;
+    case "SubWorkflow":
+      health = getWorkflowHealth(node.workflowGraph, nodes);
+      break;
+    case "Parent":
+      health = getResourceHealth(node.krm);
+      break;
+    default:
+      health = { status: "Unknown" };
+  }
+  nodes[node.id] = health;
+  return health;
+};
+
+const getConditionHealth = (condition: KubernetesCondition): Health => {
+  const message = condition.message || condition.reason || undefined;
+  if (condition.status === "True") {
+    return { status: "Healthy", message };
+  }
+  if (
+    condition.status === "False" &&
+    FAILURE_PATTERN.test(condition.reason ?? "")
+  ) {
+    return { status: "Degraded", message };
+  }
+  return { status: "Progressing", message };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { KubernetesObject } from "@kubernetes/client-node";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+
+const bucket = (name: string, labels: Record<string, string> = {}) => ({
+  apiVersion: "acme.io/v1",
+  kind: "Bucket",
+  metadata: { name, namespace: "test", labels },
+});
+
+describe("createInMemoryBackend", () => {
+  it("pages through lists with continue tokens", async () => {
+    const backend = createInMemoryBackend(
+      ["a", "b", "c"].map((name) => bucket(name))
+    );
+    const request = { group: "acme.io", version: "v1", plural: "buckets" };
+
+    const first = await backend.listCustomObjects<KubernetesObject>({
+      ...request,
+      limit: 2,
+    });
+    const second = await backend.listCustomObjects<KubernetesObject>({
+      ...request,
+      limit: 2,
+      continue: first.metadata?.continue,
+    });
+
+    expect(first.items.map((item) => item.metadata?.name)).toEqual(["a", "b"]);
+    expect(second.items.map((item) => item.metadata?.name)).toEqual(["c"]);
+    expect(second.metadata?.continue).toBeUndefined();
+  });
+
+  it("filters by label and field selectors", async () => {
+    const backend = createInMemoryBackend([
+      bucket("a", { app: "web" }),
+      bucket("b", { app: "db" }),
+      bucket("c"),
+    ]);
+    const list = async (labelSelector?: string, fieldSelector?: string) =>
+      (
+        await backend.listCustomObjects<KubernetesObject>({
+          group: "acme.io",
+          version: "v1",
+          plural: "buckets",
+          labelSelector,
+          fieldSelector,
+        })
+      ).items.map((item) => item.metadata?.name);
+
+    expect(await list("app in (web,db)")).toEqual(["a", "b"]);
+    expect(await list("!app")).toEqual(["c"]);
+    expect(await list(undefined, "metadata.name!=a")).toEqual(["b", "c"]);
+    await expect(list("app in web")).rejects.toMatchObject({ code: 400 });
+  });
+
+  it("discovers plurals and scopes from seeded CRDs", async () => {
+    const crd: KubernetesObject & { spec: unknown } = {
+      apiVersion: "apiextensions.k8s.io/v1",
+      kind: "CustomResourceDefinition",
+      metadata: { name: "buckets.acme.io" },
+      spec: {
+        group: "acme.io",
+        names: { kind: "Bucket", plural: "buckets" },
+        scope: "Cluster",
+        versions: [{ name: "v1" }],
+      },
+    };
+    const backend = createInMemoryBackend([crd]);
+
+    expect(await backend.discoverResource("acme.io/v1", "Bucket")).toEqual({
+      kind: "Bucket",
+      plural: "buckets",
+      namespaced: false,
+    });
+    expect(await backend.discoverResource("acme.io/v2", "Bucket")).toBeNull();
+  });
+});
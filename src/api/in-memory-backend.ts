@@ -0,0 +1,404 @@
+import { randomUUID } from "crypto";
+import { ApiException, KubernetesObject } from "@kubernetes/client-node";
+import {
+  KoreoBackend,
+  CustomObjectRequest,
+  CustomObjectListRequest,
+  KubernetesObjectRef,
+  KubernetesObjectList,
+  WatchEvent,
+  WatchEventType,
+  WatchRequest,
+} from "../types/client.js";
+import { isRecord } from "./records.js";
+
+const CRD_API_VERSION = "apiextensions.k8s.io/v1";
+const CRD_KIND = "CustomResourceDefinition";
+
+// The parts of a CustomResourceDefinition used to resolve plurals and scopes.
+type CustomResourceDefinition = KubernetesObject & {
+  spec: {
+    group: string;
+    names: { kind: string; plural: string };
+    scope?: "Namespaced" | "Cluster";
+    versions?: { name: string }[];
+  };
+};
+
+export interface InMemoryBackend extends KoreoBackend {
+  apply(object: KubernetesObject): KubernetesObject;
+  remove(object: KubernetesObject | KubernetesObjectRef): boolean;
+  objects(): KubernetesObject[];
+}
+
+// createInMemoryBackend returns a KoreoBackend that serves the given plain
+// objects instead of talking to a cluster. It's intended for tests and for
+// building graphs offline. Plurals and scopes are resolved from any seeded
+// CustomResourceDefinitions and otherwise fall back to the lowercased kind +
+// "s" for kinds that have seeded objects.
+export const createInMemoryBackend = (
+  seed: KubernetesObject[] = []
+): InMemoryBackend => {
+  const store = new Map<string, KubernetesObject>();
+  const watchers = new Set<{
+    request: WatchRequest;
+    onEvent: (event: WatchEvent) => void;
+  }>();
+  let resourceVersion = 0;
+
+  const notify = (type: WatchEventType, object: KubernetesObject) => {
+    watchers.forEach((watcher) => {
+      if (matchesWatch(object, watcher.request)) {
+        const event = { type, object: structuredClone(object) };
+        // Deliver asynchronously like a real watch stream.
+        queueMicrotask(() => {
+          if (watchers.has(watcher)) {
+            watcher.onEvent(event);
+          }
+        });
+      }
+    });
+  };
+
+  const apply = (object: KubernetesObject): KubernetesObject => {
+    const stored = structuredClone(object);
+    stored.metadata = {
+      ...stored.metadata,
+      uid: stored.metadata?.uid ?? randomUUID(),
+      resourceVersion: `${++resourceVersion}`,
+    };
+    const key = objectKey(stored);
+    const type = store.has(key) ? "MODIFIED" : "ADDED";
+    store.set(key, stored);
+    notify(type, stored);
+    return structuredClone(stored);
+  };
+
+  const remove = (object: KubernetesObject | KubernetesObjectRef): boolean => {
+    const key = objectKey(toObject(object));
+    const stored = store.get(key);
+    if (!stored) {
+      return false;
+    }
+    store.delete(key);
+    resourceVersion++;
+    notify("DELETED", stored);
+    return true;
+  };
+
+  const findCRD = (
+    group: string,
+    kind: string
+  ): CustomResourceDefinition | undefined => {
+    return [...store.values()].find(
+      (object): object is CustomResourceDefinition =>
+        isCRD(object) &&
+        object.spec.group === group &&
+        object.spec.names.kind === kind
+    );
+  };
+
+  const pluralFor = (group: string, kind: string): string => {
+    return findCRD(group, kind)?.spec.names.plural ?? `${kind.toLowerCase()}s`;
+  };
+
+  const matchesResource = (
+    object: KubernetesObject,
+    apiVersion: string,
+    plural: string,
+    namespace?: string
+  ): boolean => {
+    const { group } = splitApiVersion(object.apiVersion!);
+    return (
+      object.apiVersion === apiVersion &&
+      pluralFor(group, object.kind!) === plural &&
+      (!namespace || object.metadata?.namespace === namespace)
+    );
+  };
+
+  const matches = (
+    object: KubernetesObject,
+    request: CustomObjectListRequest
+  ): boolean => {
+    return matchesResource(
+      object,
+      `${request.group}/${request.version}`,
+      request.plural,
+      request.namespace
+    );
+  };
+
+  const matchesWatch = (
+    object: KubernetesObject,
+    request: WatchRequest
+  ): boolean => {
+    return (
+      matchesResource(
+        object,
+        request.apiVersion,
+        request.plural,
+        request.namespace
+      ) &&
+      matchesSelectors(object, request.labelSelector, request.fieldSelector)
+    );
+  };
+
+  seed.forEach(apply);
+
+  return {
+    apply,
+    remove,
+    objects: () => [...store.values()].map((object) => structuredClone(object)),
+    getCustomObject: async <T>(request: CustomObjectRequest): Promise<T> => {
+      const object = [...store.values()].find(
+        (object) =>
+          matches(object, request) &&
+          object.metadata?.name === request.name &&
+          (object.metadata?.namespace ?? undefined) === request.namespace
+      );
+      if (!object) {
+        throw notFound(request.plural, request.name);
+      }
+      return structuredClone(object) as T;
+    },
+    listCustomObjects: async <T>(
+      request: CustomObjectListRequest
+    ): Promise<KubernetesObjectList<T>> => {
+      const items = [...store.values()]
+        .filter(
+          (object) =>
+            matches(object, request) &&
+            matchesSelectors(
+              object,
+              request.labelSelector,
+              request.fieldSelector
+            )
+        )
+        .sort((a, b) => objectKey(a).localeCompare(objectKey(b)));
+
+      // Continue tokens are simply the offset of the next page.
+      const start = request.continue ? Number(request.continue) : 0;
+      if (!Number.isInteger(start) || start < 0) {
+        throw badRequest(`invalid continue token ${request.continue}`);
+      }
+      const end = request.limit ? start + request.limit : items.length;
+      return {
+        items: items
+          .slice(start, end)
+          .map((object) => structuredClone(object) as T),
+        metadata: {
+          resourceVersion: `${resourceVersion}`,
+          ...(end < items.length ? { continue: `${end}` } : {}),
+        },
+      };
+    },
+    // Watches only receive changes made after they start; the requested
+    // resourceVersion is ignored.
+    watchObjects: async <T>(
+      request: WatchRequest,
+      onEvent: (event: WatchEvent<T>) => void
+    ) => {
+      // Validate the selectors up front like the API server would.
+      matchesSelectors({}, request.labelSelector, request.fieldSelector);
+      const watcher = {
+        request,
+        onEvent: (event: WatchEvent) => onEvent(event as WatchEvent<T>),
+      };
+      watchers.add(watcher);
+      return { stop: () => watchers.delete(watcher) };
+    },
+    discoverResource: async (apiVersion: string, kind: string) => {
+      const { group, version } = splitApiVersion(apiVersion);
+      const crd = findCRD(group, kind);
+      if (crd) {
+        const served = (crd.spec.versions ?? []).some(
+          (crdVersion) => crdVersion.name === version
+        );
+        return served
+          ? {
+              kind,
+              plural: crd.spec.names.plural,
+              namespaced: crd.spec.scope !== "Cluster",
+            }
+          : null;
+      }
+      const object = [...store.values()].find(
+        (object) => object.apiVersion === apiVersion && object.kind === kind
+      );
+      if (!object) {
+        return null;
+      }
+      return {
+        kind,
+        plural: pluralFor(group, kind),
+        namespaced: !!object.metadata?.namespace,
+      };
+    },
+    readObject: async <T extends KubernetesObject>(
+      ref: KubernetesObjectRef
+    ): Promise<T> => {
+      const object = store.get(objectKey(toObject(ref)));
+      if (!object) {
+        throw notFound(ref.kind, ref.name);
+      }
+      return structuredClone(object) as T;
+    },
+  };
+};
+
+const toObject = (
+  object: KubernetesObject | KubernetesObjectRef
+): KubernetesObject => {
+  if ("metadata" in object) {
+    return object;
+  }
+  const ref = object as KubernetesObjectRef;
+  return {
+    apiVersion: ref.apiVersion,
+    kind: ref.kind,
+    metadata: { name: ref.name, namespace: ref.namespace },
+  };
+};
+
+// Seeded CRDs are plain objects, so check the fields findCRD reads.
+const isCRD = (
+  object: KubernetesObject
+): object is CustomResourceDefinition => {
+  const spec = "spec" in object ? object.spec : undefined;
+  return (
+    object.apiVersion === CRD_API_VERSION &&
+    object.kind === CRD_KIND &&
+    isRecord(spec) &&
+    typeof spec.group === "string" &&
+    isRecord(spec.names) &&
+    typeof spec.names.kind === "string" &&
+    typeof spec.names.plural === "string"
+  );
+};
+
+const objectKey = (object: KubernetesObject): string => {
+  return [
+    object.apiVersion,
+    object.kind,
+    object.metadata?.namespace ?? "",
+    object.metadata?.name,
+  ].join("/");
+};
+
+const splitApiVersion = (
+  apiVersion: string
+): { group: string; version: string } => {
+  const parts = apiVersion.split("/");
+  return parts.length === 1
+    ? { group: "", version: parts[0] }
+    : { group: parts[0], version: parts[1] };
+};
+
+const matchesSelectors = (
+  object: KubernetesObject,
+  labelSelector?: string,
+  fieldSelector?: string
+): boolean => {
+  return (
+    parseLabelSelector(labelSelector).every((requirement) =>
+      requirement(object.metadata?.labels ?? {})
+    ) &&
+    parseFieldSelector(fieldSelector).every((requirement) =>
+      requirement(object)
+    )
+  );
+};
+
+type LabelRequirement = (labels: Record<string, string>) => boolean;
+type FieldRequirement = (object: KubernetesObject) => boolean;
+
+// Supports the equality and set-based label selector syntax, e.g.
+// "app=web,tier!=db,env in (dev,qa),!legacy".
+const parseLabelSelector = (selector?: string): LabelRequirement[] => {
+  return splitSelector(selector).map((term) => {
+    let match = term.match(/^(\S+)\s+(in|notin)\s+\(([^)]*)\)$/);
+    if (match) {
+      const [, key, operator, rawValues] = match;
+      const values = rawValues.split(",").map((value) => value.trim());
+      return operator === "in"
+        ? (labels) => key in labels && values.includes(labels[key])
+        : (labels) => !(key in labels) || !values.includes(labels[key]);
+    }
+    match = term.match(/^([^=!\s]+)\s*(==|=|!=)\s*([^=!\s]*)$/);
+    if (match) {
+      const [, key, operator, value] = match;
+      return operator === "!="
+        ? (labels) => labels[key] !== value
+        : (labels) => labels[key] === value;
+    }
+    match = term.match(/^(!?)([^=!\s]+)$/);
+    if (match) {
+      const [, negated, key] = match;
+      return negated ? (labels) => !(key in labels) : (labels) => key in labels;
+    }
+    throw badRequest(`unable to parse label selector requirement "${term}"`);
+  });
+};
+
+// Supports "path=value", "path==value" and "path!=value" terms where path is a
+// dotted path into the object, e.g. "metadata.name=my-workflow".
+const parseFieldSelector = (selector?: string): FieldRequirement[] => {
+  return splitSelector(selector).map((term) => {
+    const match = term.match(/^([^=!\s]+)\s*(==|=|!=)\s*([^=!\s]*)$/);
+    if (!match) {
+      throw badRequest(`unable to parse field selector requirement "${term}"`);
+    }
+    const [, path, operator, value] = match;
+    return (object) => {
+      const fieldValue = path
+        .split(".")
+        .reduce<unknown>(
+          (current, key) => (isRecord(current) ? current[key] : undefined),
+          object
+        );
+      const equal = `${fieldValue ?? ""}` === value;
+      return operator === "!=" ? !equal : equal;
+    };
+  });
+};
+
+// Splits a selector on commas that aren't inside a set, e.g. "in (a,b)".
+const splitSelector = (selector?: string): string[] => {
+  const terms: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of selector ?? "") {
+    if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    }
+    if (char === "," && depth === 0) {
+      terms.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  terms.push(current);
+  return terms.map((term) => term.trim()).filter((term) => term);
+};
+
+const badRequest = (message: string): ApiException<unknown> => {
+  return new ApiException(
+    400,
+    message,
+    { kind: "Status", status: "Failure", reason: "BadRequest", message },
+    {}
+  );
+};
+
+const notFound = (resource: string, name: string): ApiException<unknown> => {
+  const message = `${resource} "${name}" not found`;
+  return new ApiException(
+    404,
+    message,
+    { kind: "Status", status: "Failure", reason: "NotFound", message },
+    {}
+  );
+};
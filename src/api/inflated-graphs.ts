@@ -1,23 +1,40 @@
-import { getWorkflowGraph } from "./graphs";
+import { getWorkflowGraph } from "./graphs.js";
 import {
   Graph,
   InflatedGraph,
   InflatedNode,
   WorkflowNode,
+  WorkflowCycleNode,
   KEdge,
   EdgeType,
-} from "../types/graph";
-import { KubernetesObjectWithSpecAndStatus } from "../types/kubernetes";
-import { ManagedKubernetesResource } from "../types/graph";
+  GraphBuildOptions,
+  StepCondition,
+} from "../types/graph.js";
+import { KubernetesObjectWithSpecAndStatus } from "../types/kubernetes.js";
+import { ManagedKubernetesResource } from "../types/graph.js";
 import { createHash } from "crypto";
+import { KoreoClient } from "../types/client.js";
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { getGraphHealth, getResourceHealth } from "./health.js";
+import { GraphHealth, Health } from "../types/health.js";
+
+// isInflatedGraph tells the two graph flavors apart. An empty graph counts as
+// a Graph.
+export const isInflatedGraph = (
+  graph: Graph | InflatedGraph
+): graph is InflatedGraph => {
+  return graph.nodes.some((node) => typeof node.type === "object");
+};
 
 export const getInflatedWorkflowGraph = async (
   namespace: string,
   workflowId: string,
-  expanded?: boolean
+  expanded?: boolean,
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: GraphBuildOptions = {}
 ): Promise<InflatedGraph> => {
   return inflateGraph(
-    await getWorkflowGraph(namespace, workflowId),
+    await getWorkflowGraph(namespace, workflowId, undefined, client, options),
     false,
     expanded
   );
@@ -27,15 +44,37 @@ export const getInflatedWorkflowInstanceGraph = async (
   namespace: string,
   workflowId: string,
   instanceId: string,
-  expanded?: boolean
+  expanded?: boolean,
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: GraphBuildOptions = {}
 ): Promise<InflatedGraph> => {
-  return inflateGraph(
-    await getWorkflowGraph(namespace, workflowId, instanceId),
-    true,
+  return inflateWorkflowInstanceGraph(
+    await getWorkflowGraph(namespace, workflowId, instanceId, client, options),
     expanded
   );
 };
 
+// inflateWorkflowInstanceGraph inflates a Workflow instance graph, adding the
+// health of each node and the conditions of its steps.
+export const inflateWorkflowInstanceGraph = (
+  graph: Graph,
+  expanded?: boolean
+): InflatedGraph => {
+  // Collect these before inflating, which rewrites some of the graph's ids.
+  const health = getGraphHealth(graph);
+  const conditions: Record<string, StepCondition> = {};
+  graph.nodes.forEach((node) => {
+    if (node.metadata?.condition) {
+      conditions[node.id] = node.metadata.condition as StepCondition;
+    }
+  });
+  return addInstanceMetadata(
+    inflateGraph(graph, true, expanded),
+    health,
+    conditions
+  );
+};
+
 const inflateGraph = (
   koreoGraph: Graph,
   includeResources: boolean,
@@ -47,6 +86,7 @@ const inflateGraph = (
   return {
     nodes: Object.values(dedupedGraph.nodes),
     edges: Object.values(dedupedGraph.edges),
+    errors: koreoGraph.errors,
   };
 };
 
@@ -104,7 +144,7 @@ const convertGraph = (
           }
           const subWorkflowNode = node.workflowGraph.nodes[0] as WorkflowNode;
           caseKRMs.push(subWorkflowNode.krm);
-        } else {
+        } else if (node.type !== "WorkflowCycle") {
           caseKRMs.push(node.krm);
         }
       });
@@ -151,6 +191,19 @@ const convertGraph = (
         krm: knode.krm,
       };
       graph.nodes[node.id] = node;
+    } else if (knode.type === "WorkflowCycle") {
+      addWorkflowCycleNode(graph, knode);
+    } else if (knode.type === "ResourceTemplate") {
+      const node: InflatedNode = {
+        id: knode.id,
+        label: knode.krm.metadata?.name!,
+        type: {
+          isKoreoType: true,
+          name: "ResourceTemplate",
+        },
+        krm: knode.krm,
+      };
+      graph.nodes[node.id] = node;
     } else if (knode.type === "Parent") {
       // Use a special id in case the parent is also a managed resource to avoid cycles
       const parentNodeId = `parent-${knode.id}`;
@@ -220,10 +273,12 @@ const convertGraphExpanded = (
         if (edge.source === prevWorkflowNodeId) {
           edge.source = workflowNode.id;
         }
+        // Cycles back to this sub-workflow point at its Workflow node.
+        if (edge.target === prevWorkflowNodeId) {
+          edge.target = workflowNode.id;
+        }
       });
-      Object.values(subGraph.nodes).forEach(
-        (node) => (graph.nodes[node.id] = node)
-      );
+      addNestedNodes(graph, subGraph.nodes, workflowNode.id);
       Object.values(subGraph.edges).forEach(
         (edge) => (graph.edges[edge.id] = edge)
       );
@@ -254,8 +309,10 @@ const convertGraphExpanded = (
           }
           caseNode.workflowGraph.nodes[0].metadata.label = `case: ${caseStr}`;
           const subGraph = convertGraphExpanded(caseNode.workflowGraph, false);
-          Object.values(subGraph.nodes).forEach(
-            (node) => (graph.nodes[node.id] = node)
+          addNestedNodes(
+            graph,
+            subGraph.nodes,
+            caseNode.workflowGraph.nodes[0].id
           );
           Object.values(subGraph.edges).forEach(
             (edge) => (graph.edges[edge.id] = edge)
@@ -264,6 +321,13 @@ const convertGraphExpanded = (
             workflowNode: caseNode.workflowGraph.nodes[0].id,
             leafNodes: caseNode.workflowLeafNodeIds,
           });
+        } else if (caseNode.type === "WorkflowCycle") {
+          const node = addWorkflowCycleNode(
+            graph,
+            caseNode,
+            `case: ${caseStr}`
+          );
+          functionCaseNodes.push(node.id);
         } else {
           const isKoreoType =
             caseNode.krm.kind! === "ResourceFunction" ||
@@ -376,6 +440,19 @@ const convertGraphExpanded = (
         krm: knode.krm,
       };
       graph.nodes[node.id] = node;
+    } else if (knode.type === "WorkflowCycle") {
+      addWorkflowCycleNode(graph, knode);
+    } else if (knode.type === "ResourceTemplate") {
+      const node: InflatedNode = {
+        id: knode.id,
+        label: knode.krm.metadata?.name!,
+        type: {
+          isKoreoType: true,
+          name: "ResourceTemplate",
+        },
+        krm: knode.krm,
+      };
+      graph.nodes[node.id] = node;
     } else if (knode.type === "Parent") {
       // Use a special id in case the parent is also a managed resource to avoid cycles
       const parentNodeId = `parent-${knode.id}`;
@@ -415,6 +492,82 @@ const convertGraphExpanded = (
   return graph;
 };
 
+// addNestedNodes adds the nodes of an expanded sub-workflow, whose Workflow
+// node has the given id. Each node records the ids of the sub-workflows it's
+// nested in, outermost first, as metadata.subWorkflows and their number as
+// metadata.nestingDepth.
+const addNestedNodes = (
+  graph: { nodes: Record<string, InflatedNode>; edges: Record<string, KEdge> },
+  nodes: Record<string, InflatedNode>,
+  subWorkflowId: string
+) => {
+  Object.values(nodes).forEach((node) => {
+    const subWorkflows = [
+      subWorkflowId,
+      ...((node.metadata?.subWorkflows as string[] | undefined) ?? []),
+    ];
+    node.metadata = {
+      ...node.metadata,
+      subWorkflows,
+      nestingDepth: subWorkflows.length,
+    };
+    graph.nodes[node.id] = node;
+  });
+};
+
+// addInstanceMetadata sets metadata.health on every node and
+// metadata.condition on the nodes of steps that report a condition. Inflated
+// nodes keep the ids of the nodes they came from, apart from the prefixed
+// parent and RefSwitch nodes. The overall health goes on the parent node.
+const addInstanceMetadata = (
+  graph: InflatedGraph,
+  health: GraphHealth,
+  conditions: Record<string, StepCondition>
+): InflatedGraph => {
+  graph.nodes.forEach((node) => {
+    const sourceId = node.id.replace(/^switch(In|Out)-/, "");
+    let nodeHealth: Health | undefined;
+    if (node.metadata?.managedResource) {
+      nodeHealth = getResourceHealth(node.krm);
+    } else if (node.id.startsWith("parent-")) {
+      nodeHealth = { status: health.status, message: health.message };
+    } else {
+      nodeHealth = health.nodes[sourceId];
+    }
+    node.metadata = {
+      ...node.metadata,
+      health: nodeHealth ?? { status: "Unknown" },
+    };
+    if (conditions[sourceId]) {
+      node.metadata.condition = conditions[sourceId];
+    }
+  });
+  return graph;
+};
+
+const addWorkflowCycleNode = (
+  graph: { nodes: Record<string, InflatedNode>; edges: Record<string, KEdge> },
+  knode: WorkflowCycleNode,
+  label?: string
+): InflatedNode => {
+  const node: InflatedNode = {
+    id: knode.id,
+    label: label ?? (knode.metadata?.label as string) ?? knode.workflowId,
+    type: {
+      isKoreoType: true,
+      name: "WorkflowCycle",
+    },
+    metadata: {
+      workflow: knode.workflowId,
+      cycle: knode.cycle,
+    },
+  };
+  graph.nodes[node.id] = node;
+  const edge = createEdge(node.id, knode.targetNodeId, "CycleToWorkflow");
+  graph.edges[edge.id] = edge;
+  return node;
+};
+
 const addResourceNodes = (
   graph: { nodes: Record<string, InflatedNode>; edges: Record<string, KEdge> },
   parentNodeId: string,
@@ -434,6 +587,8 @@ const addResourceNodes = (
       metadata: {
         managedResource: true,
         readonly: managedResource.definition.readonly,
+        apiVersion: managedResource.definition.apiVersion,
+        namespace: managedResource.definition.namespace,
       },
     };
 
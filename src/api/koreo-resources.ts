@@ -0,0 +1,21 @@
+import { KoreoObjectKind } from "../types/listing.js";
+
+// Pass ALL_NAMESPACES (alone or in a list) to list across every namespace.
+export const ALL_NAMESPACES = "";
+
+export const KOREO_GROUP = "koreo.dev";
+export const KOREO_VERSION = "v1beta1";
+export const KOREO_PLURALS: Record<KoreoObjectKind, string> = {
+  Workflow: "workflows",
+  ValueFunction: "valuefunctions",
+  ResourceFunction: "resourcefunctions",
+  ResourceTemplate: "resourcetemplates",
+};
+
+export const toNamespaceArray = (namespaces: string | string[]): string[] => {
+  const namespaceArray = Array.isArray(namespaces) ? namespaces : [namespaces];
+  if (namespaceArray.includes(ALL_NAMESPACES)) {
+    return [ALL_NAMESPACES];
+  }
+  return Array.from(new Set(namespaceArray));
+};
@@ -1,8 +1,16 @@
 import * as k8s from "@kubernetes/client-node";
+import {
+  KoreoBackend,
+  KoreoClient,
+  KoreoClientOptions,
+  WatchEventType,
+  WatchRequest,
+} from "../types/client.js";
 
 let k8sObjectApiInstance: k8s.KubernetesObjectApi | null = null;
 let k8sCRDApiInstance: k8s.CustomObjectsApi | null = null;
 let k8sCoreV1ApiInstance: k8s.CoreV1Api | null = null;
+let defaultKoreoClientInstance: KoreoClient | null = null;
 
 export const getK8sObjectApi = (): k8s.KubernetesObjectApi => {
   if (!k8sObjectApiInstance) {
@@ -30,3 +38,157 @@ export const getK8sCoreV1Api = (): k8s.CoreV1Api => {
   }
   return k8sCoreV1ApiInstance;
 };
+
+// The default client loads the default kubeconfig, like the API singletons
+// above.
+export const getDefaultKoreoClient = (): KoreoClient => {
+  if (!defaultKoreoClientInstance) {
+    defaultKoreoClientInstance = createKoreoClient();
+  }
+  return defaultKoreoClientInstance;
+};
+
+export const createKoreoClient = (
+  options: KoreoClientOptions = {}
+): KoreoClient => {
+  if (options.backend) {
+    return { backend: options.backend };
+  }
+
+  const kc = options.kubeConfig ?? new k8s.KubeConfig();
+  if (!options.kubeConfig) {
+    kc.loadFromDefault();
+  }
+  if (options.context) {
+    kc.setCurrentContext(options.context);
+  }
+
+  return { backend: createKubernetesBackend(kc) };
+};
+
+// KubernetesObjectApi already performs (and caches) API discovery to build
+// request paths, this exposes it so the backend can resolve plurals.
+class DiscoveringObjectApi extends k8s.KubernetesObjectApi {
+  static makeDiscoveringApiClient(kc: k8s.KubeConfig): DiscoveringObjectApi {
+    const client = kc.makeApiClient(DiscoveringObjectApi);
+    client.setDefaultNamespace(kc);
+    return client;
+  }
+
+  discover(
+    apiVersion: string,
+    kind: string
+  ): Promise<k8s.V1APIResource | undefined> {
+    return this.resource(apiVersion, kind);
+  }
+}
+
+const createKubernetesBackend = (kc: k8s.KubeConfig): KoreoBackend => {
+  const crdApi = kc.makeApiClient(k8s.CustomObjectsApi);
+  const objectApi = DiscoveringObjectApi.makeDiscoveringApiClient(kc);
+  const watch = new k8s.Watch(kc);
+  return {
+    getCustomObject: ({ group, version, plural, name, namespace }) =>
+      namespace
+        ? crdApi.getNamespacedCustomObject({
+            group,
+            version,
+            namespace,
+            plural,
+            name,
+          })
+        : crdApi.getClusterCustomObject({ group, version, plural, name }),
+    listCustomObjects: ({
+      group,
+      version,
+      plural,
+      namespace,
+      labelSelector,
+      fieldSelector,
+      limit,
+      continue: _continue,
+    }) =>
+      namespace
+        ? crdApi.listNamespacedCustomObject({
+            group,
+            version,
+            namespace,
+            plural,
+            labelSelector,
+            fieldSelector,
+            limit,
+            _continue,
+          })
+        : crdApi.listClusterCustomObject({
+            group,
+            version,
+            plural,
+            labelSelector,
+            fieldSelector,
+            limit,
+            _continue,
+          }),
+    readObject: async <T extends k8s.KubernetesObject>({
+      apiVersion,
+      kind,
+      name,
+      namespace,
+    }: {
+      apiVersion: string;
+      kind: string;
+      name: string;
+      namespace?: string;
+    }) => {
+      const object = await objectApi.read({
+        apiVersion,
+        kind,
+        metadata: { name, namespace },
+      });
+      return object as T;
+    },
+    watchObjects: async (request, onEvent, onDone) => {
+      let stopped = false;
+      const controller = await watch.watch(
+        watchPath(request),
+        {
+          labelSelector: request.labelSelector,
+          fieldSelector: request.fieldSelector,
+          resourceVersion: request.resourceVersion,
+          allowWatchBookmarks: true,
+        },
+        (type, object) => onEvent({ type: type as WatchEventType, object }),
+        (err) => {
+          if (!stopped) {
+            onDone(err ?? undefined);
+          }
+        }
+      );
+      return {
+        stop: () => {
+          stopped = true;
+          controller.abort();
+        },
+      };
+    },
+    discoverResource: async (apiVersion, kind) => {
+      const resource = await objectApi.discover(apiVersion, kind);
+      if (!resource) {
+        return null;
+      }
+      return {
+        kind: resource.kind,
+        plural: resource.name,
+        namespaced: resource.namespaced,
+      };
+    },
+  };
+};
+
+const watchPath = ({ apiVersion, plural, namespace }: WatchRequest): string => {
+  const prefix = apiVersion.includes("/")
+    ? `/apis/${apiVersion}`
+    : `/api/${apiVersion}`;
+  return namespace
+    ? `${prefix}/namespaces/${namespace}/${plural}`
+    : `${prefix}/${plural}`;
+};
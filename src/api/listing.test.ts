@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { listKoreoObjects, listKoreoObjectsPage } from "./listing.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+
+const workflow = (namespace: string, name: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: { name, namespace },
+  spec: { steps: [] },
+});
+
+const client = createKoreoClient({
+  backend: createInMemoryBackend([
+    workflow("a", "one"),
+    workflow("a", "two"),
+    workflow("b", "three"),
+  ]),
+});
+
+describe("listKoreoObjects", () => {
+  it("lists across namespaces", async () => {
+    const workflows = await listKoreoObjects("Workflow", ["a", "b"], client);
+    expect(workflows.map((item) => item.metadata?.name)).toEqual([
+      "one",
+      "two",
+      "three",
+    ]);
+  });
+
+  it("resumes a single namespace from a continue token", async () => {
+    const page = await listKoreoObjectsPage("Workflow", "a", client, {
+      limit: 1,
+    });
+    const rest = await listKoreoObjects("Workflow", "a", client, {
+      continue: page.continue,
+    });
+    expect(rest.map((item) => item.metadata?.name)).toEqual(["two"]);
+  });
+
+  it("leaves out and reports objects that fail validation", async () => {
+    const invalid: string[] = [];
+    const workflows = await listKoreoObjects(
+      "Workflow",
+      "c",
+      createKoreoClient({
+        backend: createInMemoryBackend([
+          workflow("c", "valid"),
+          {
+            apiVersion: "koreo.dev/v1beta1",
+            kind: "Workflow",
+            metadata: { name: "no-spec", namespace: "c" },
+          },
+        ]),
+      }),
+      { onInvalid: (err) => invalid.push(err.message) }
+    );
+
+    expect(workflows.map((item) => item.metadata?.name)).toEqual(["valid"]);
+    expect(invalid).toEqual([
+      expect.stringContaining("InvalidResource: Workflow c/no-spec: spec"),
+    ]);
+  });
+
+  it("rejects a continue token across several namespaces", async () => {
+    await expect(
+      listKoreoObjects("Workflow", ["a", "b"], client, { continue: "1" })
+    ).rejects.toThrow("continue token");
+  });
+});
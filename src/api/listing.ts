@@ -0,0 +1,150 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { toKoreoError } from "./errors.js";
+import { isRecord } from "./records.js";
+import {
+  schemaError,
+  validateFunctionSchema,
+  validateResourceTemplateSchema,
+  validateWorkflowSchema,
+} from "./schemas.js";
+import {
+  ALL_NAMESPACES,
+  KOREO_GROUP,
+  KOREO_VERSION,
+  KOREO_PLURALS,
+  toNamespaceArray,
+} from "./koreo-resources.js";
+import { KoreoClient } from "../types/client.js";
+import {
+  ListOptions,
+  ListPage,
+  KoreoObjectKind,
+  KoreoObjectTypes,
+} from "../types/listing.js";
+import { SchemaIssue } from "../types/schema.js";
+
+export { ALL_NAMESPACES };
+
+const VALIDATORS: Record<KoreoObjectKind, (value: unknown) => SchemaIssue[]> = {
+  Workflow: validateWorkflowSchema,
+  ValueFunction: validateFunctionSchema,
+  ResourceFunction: validateFunctionSchema,
+  ResourceTemplate: validateResourceTemplateSchema,
+};
+
+// listKoreoObjectsPage fetches a single page of Koreo objects. Pass the
+// returned continue token back in the options to fetch the next page. Objects
+// that fail schema validation are left out and passed to options.onInvalid.
+export const listKoreoObjectsPage = async <K extends KoreoObjectKind>(
+  kind: K,
+  namespace: string,
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
+): Promise<ListPage<KoreoObjectTypes[K]>> => {
+  try {
+    const result = await client.backend.listCustomObjects<unknown>({
+      group: KOREO_GROUP,
+      version: KOREO_VERSION,
+      plural: KOREO_PLURALS[kind],
+      namespace: namespace || undefined,
+      labelSelector: options.labelSelector,
+      fieldSelector: options.fieldSelector,
+      limit: options.limit,
+      continue: options.continue,
+    });
+    return {
+      items: result.items.filter((item): item is KoreoObjectTypes[K] =>
+        isValid(kind, item, options)
+      ),
+      continue: result.metadata?.continue || undefined,
+    };
+  } catch (err) {
+    throw toKoreoError(err, { kind, namespace: namespace || undefined });
+  }
+};
+
+// iterateKoreoObjects lazily pages through Koreo objects one namespace at a
+// time so that callers never hold more than a page in memory.
+export async function* iterateKoreoObjects<K extends KoreoObjectKind>(
+  kind: K,
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
+): AsyncGenerator<KoreoObjectTypes[K]> {
+  const namespaceArray = toNamespaceArray(namespaces);
+  checkContinue(namespaceArray, options);
+  for (const namespace of namespaceArray) {
+    let continueToken = options.continue;
+    do {
+      const page = await listKoreoObjectsPage(kind, namespace, client, {
+        ...options,
+        continue: continueToken,
+      });
+      yield* page.items;
+      continueToken = page.continue;
+    } while (continueToken);
+  }
+}
+
+// listKoreoObjects fetches every matching Koreo object, paging through each
+// namespace in parallel.
+export const listKoreoObjects = async <K extends KoreoObjectKind>(
+  kind: K,
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
+): Promise<KoreoObjectTypes[K][]> => {
+  const namespaceArray = toNamespaceArray(namespaces);
+  checkContinue(namespaceArray, options);
+  const results = await Promise.all(
+    namespaceArray.map(async (namespace) => {
+      const items: KoreoObjectTypes[K][] = [];
+      for await (const item of iterateKoreoObjects(
+        kind,
+        namespace,
+        client,
+        options
+      )) {
+        items.push(item);
+      }
+      return items;
+    })
+  );
+  return results.flat();
+};
+
+// A continue token belongs to the list call that returned it, so it can't be
+// applied to other namespaces.
+const checkContinue = (namespaces: string[], options: ListOptions) => {
+  if (options.continue && namespaces.length > 1) {
+    throw new Error(
+      "A continue token can only be used when listing a single namespace or all namespaces"
+    );
+  }
+};
+
+const isValid = (
+  kind: KoreoObjectKind,
+  item: unknown,
+  options: ListOptions
+): boolean => {
+  const issues = VALIDATORS[kind](item);
+  if (issues.length > 0) {
+    const metadata =
+      isRecord(item) && isRecord(item.metadata) ? item.metadata : {};
+    options.onInvalid?.(
+      schemaError(
+        {
+          kind,
+          name: typeof metadata.name === "string" ? metadata.name : undefined,
+          namespace:
+            typeof metadata.namespace === "string"
+              ? metadata.namespace
+              : undefined,
+        },
+        issues
+      )
+    );
+  }
+  return issues.length === 0;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  countManagedResources,
+  getManagedResourcesError,
+  parseManagedResources,
+  validateManagedResources,
+} from "./managed-resources.js";
+import { WorkflowParent } from "../types/workflow.js";
+
+const resource = (name: string) => ({
+  apiVersion: "v1",
+  kind: "ConfigMap",
+  name,
+  namespace: "test",
+  readonly: false,
+  resourceFunction: "map",
+});
+
+const annotation = JSON.stringify({
+  workflow: "app",
+  resources: {
+    config: resource("config"),
+    broken: { ...resource("broken"), readonly: undefined },
+    items: [resource("a"), { kind: "ConfigMap" }, resource("c")],
+    sub: { workflow: "sub", resources: { inner: resource("inner") } },
+  },
+});
+
+describe("parseManagedResources", () => {
+  it("keeps the valid entries of a partly invalid annotation", () => {
+    const managedResources = parseManagedResources(annotation);
+
+    expect(Object.keys(managedResources.resources)).toEqual([
+      "config",
+      "items",
+      "sub",
+    ]);
+    expect(managedResources.resources.items).toEqual([
+      resource("a"),
+      { workflow: "", resources: {} },
+      resource("c"),
+    ]);
+    expect(countManagedResources(managedResources)).toBe(4);
+    expect(validateManagedResources(annotation)).toEqual([
+      { path: "resources.broken.readonly", message: "is required" },
+      { path: "resources.items[1].apiVersion", message: "is required" },
+      { path: "resources.items[1].name", message: "is required" },
+      { path: "resources.items[1].readonly", message: "is required" },
+      { path: "resources.items[1].resourceFunction", message: "is required" },
+    ]);
+  });
+
+  it("treats an annotation that isn't JSON as empty", () => {
+    expect(parseManagedResources("{")).toEqual({
+      workflow: "",
+      resources: {},
+    });
+  });
+});
+
+describe("getManagedResourcesError", () => {
+  it("describes the invalid entries of a parent's annotation", () => {
+    const parent = {
+      apiVersion: "acme.io/v1",
+      kind: "App",
+      metadata: {
+        name: "my-app",
+        namespace: "test",
+        annotations: { "koreo.dev/managed-resources": annotation },
+      },
+      spec: {},
+      status: {},
+    } as WorkflowParent;
+
+    expect(getManagedResourcesError(parent)).toMatchObject({
+      reason: "InvalidResource",
+      resource: { kind: "App", name: "my-app", namespace: "test" },
+      message: expect.stringContaining(
+        "App test/my-app: invalid managed-resources annotation: resources.broken.readonly: is required"
+      ),
+    });
+    expect(
+      getManagedResourcesError({
+        ...parent,
+        metadata: { name: "my-app" },
+      })
+    ).toBeUndefined();
+  });
+});
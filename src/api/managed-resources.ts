@@ -1,34 +1,143 @@
+import { KoreoError } from "./errors.js";
+import { isRecord } from "./records.js";
+import {
+  formatSchemaIssues,
+  validateKubernetesResourceSchema,
+  validateManagedResourcesSchema,
+} from "./schemas.js";
 import {
   ManagedResources,
   ManagedResource,
   KubernetesResource,
   KubernetesResourceOrManagedResources,
-} from "../types/managed-resource";
-import { WorkflowParent } from "../types/workflow";
+} from "../types/managed-resource.js";
+import { WorkflowParent } from "../types/workflow.js";
+import { SchemaIssue } from "../types/schema.js";
 
 const MANAGED_RESOURCES_ANNOTATION = "koreo.dev/managed-resources";
 
+// parseManagedResources reads a parent's managed-resources annotation. An
+// annotation that is missing or isn't JSON is treated as empty, and entries
+// that don't match the schema are left out; use validateManagedResources to
+// find out why.
 export const parseManagedResources = (
   managedResourcesStringOrParent: string | WorkflowParent
 ): ManagedResources => {
+  return decodeManagedResources(managedResourcesStringOrParent).resources;
+};
+
+// validateManagedResources returns the problems with a parent's
+// managed-resources annotation, with paths into the parsed value.
+export const validateManagedResources = (
+  managedResourcesStringOrParent: string | WorkflowParent
+): SchemaIssue[] => {
+  return decodeManagedResources(managedResourcesStringOrParent).issues;
+};
+
+// getManagedResourcesError returns an InvalidResource KoreoError describing
+// the problems with a parent's managed-resources annotation, or undefined if
+// there are none.
+export const getManagedResourcesError = (
+  parent: WorkflowParent
+): KoreoError | undefined => {
+  const issues = validateManagedResources(parent);
+  if (issues.length === 0) {
+    return undefined;
+  }
+  const resource = {
+    kind: parent.kind ?? "Parent",
+    name: parent.metadata?.name,
+    namespace: parent.metadata?.namespace,
+  };
+  return new KoreoError(
+    "InvalidResource",
+    `InvalidResource: ${resource.kind} ${[resource.namespace, resource.name]
+      .filter(Boolean)
+      .join("/")}: invalid managed-resources annotation: ${formatSchemaIssues(
+      issues
+    )}`,
+    { resource, issues }
+  );
+};
+
+const decodeManagedResources = (
+  managedResourcesStringOrParent: string | WorkflowParent
+): { resources: ManagedResources; issues: SchemaIssue[] } => {
   const managedResourcesString =
     typeof managedResourcesStringOrParent !== "string"
-      ? managedResourcesStringOrParent.metadata.annotations[
+      ? managedResourcesStringOrParent.metadata?.annotations?.[
           MANAGED_RESOURCES_ANNOTATION
         ]
       : managedResourcesStringOrParent;
 
   if (!managedResourcesString) {
-    return { workflow: "", resources: {} };
+    return { resources: { workflow: "", resources: {} }, issues: [] };
   }
 
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(managedResourcesString);
-    return parsed;
-  } catch (error) {
-    console.error("Failed to parse managed-resources:", error);
-    return { workflow: "", resources: {} };
+    parsed = JSON.parse(managedResourcesString);
+  } catch (err) {
+    return {
+      resources: { workflow: "", resources: {} },
+      issues: [
+        {
+          path: "",
+          message: `invalid JSON: ${err instanceof Error ? err.message : err}`,
+        },
+      ],
+    };
+  }
+  return {
+    resources: pruneManagedResources(parsed),
+    issues: validateManagedResourcesSchema(parsed),
+  };
+};
+
+// pruneManagedResources keeps the parts of a parsed annotation that match the
+// schema, so that one bad entry doesn't hide the others.
+const pruneManagedResources = (value: unknown): ManagedResources => {
+  const resources: Record<string, ManagedResource> = {};
+  if (!isRecord(value)) {
+    return { workflow: "", resources };
+  }
+  if (isRecord(value.resources)) {
+    Object.entries(value.resources).forEach(([label, entry]) => {
+      const pruned = pruneManagedResource(entry);
+      if (pruned !== undefined) {
+        resources[label] = pruned;
+      }
+    });
+  }
+  return {
+    workflow: typeof value.workflow === "string" ? value.workflow : "",
+    resources,
+  };
+};
+
+// An invalid forEach item is replaced with an empty sub-workflow rather than
+// dropped so that the other items keep their indexes.
+const pruneManagedResource = (value: unknown): ManagedResource | undefined => {
+  if (value === null) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(
+      (item) => pruneResourceOrWorkflow(item) ?? { workflow: "", resources: {} }
+    );
+  }
+  return pruneResourceOrWorkflow(value);
+};
+
+const pruneResourceOrWorkflow = (
+  value: unknown
+): KubernetesResourceOrManagedResources | undefined => {
+  if (isRecord(value) && "resources" in value) {
+    return pruneManagedResources(value);
   }
+  return validateKubernetesResourceSchema(value).length === 0
+    ? (value as KubernetesResource)
+    : undefined;
 };
 
 export const collectManagedResources = (
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadManifests } from "./manifests.js";
+
+const valueFunction = (apiVersion: string, name: string) => `
+apiVersion: ${apiVersion}
+kind: ValueFunction
+metadata:
+  name: ${name}
+spec:
+  return:
+    value: "=1"
+`;
+
+describe("loadManifests", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "koreo-manifests-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads Koreo objects and skips other objects", async () => {
+    await writeFile(
+      join(dir, "functions.yaml"),
+      [
+        valueFunction("koreo.dev/v1beta1", "one"),
+        "apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: other\n",
+        valueFunction("koreo.dev/v1beta1", "two"),
+      ].join("---\n")
+    );
+
+    const objects = await loadManifests(dir, { namespace: "test" });
+
+    expect(
+      objects.map((object) => [
+        object.metadata?.namespace,
+        object.metadata?.name,
+      ])
+    ).toEqual([
+      ["test", "one"],
+      ["test", "two"],
+    ]);
+  });
+
+  it("rejects Koreo objects of other versions", async () => {
+    await writeFile(
+      join(dir, "functions.yaml"),
+      valueFunction("koreo.dev/v1alpha8", "old")
+    );
+
+    await expect(loadManifests(dir)).rejects.toMatchObject({
+      reason: "InvalidResource",
+      message: expect.stringContaining("koreo.dev/v1alpha8"),
+    });
+  });
+
+  it("skips objects whose kind is only an Object property", async () => {
+    await writeFile(
+      join(dir, "objects.yaml"),
+      ["toString", "constructor", "__proto__"]
+        .map(
+          (kind) =>
+            `apiVersion: koreo.dev/v1alpha8\nkind: ${kind}\nmetadata:\n  name: ${kind}\n`
+        )
+        .join("---\n")
+    );
+
+    await expect(loadManifests(dir)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { basename, extname, join } from "path";
+import { createHash } from "crypto";
+import { KubernetesObject, loadAllYaml } from "@kubernetes/client-node";
+import { KoreoError } from "./errors.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import {
+  KOREO_GROUP,
+  KOREO_PLURALS,
+  KOREO_VERSION,
+} from "./koreo-resources.js";
+import { isRecord } from "./records.js";
+import { KoreoClient } from "../types/client.js";
+import { ManifestLoadOptions } from "../types/manifests.js";
+
+const MANIFEST_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+// loadManifests reads the Koreo objects (Workflows, ValueFunctions,
+// ResourceFunctions and ResourceTemplates) from the given files and
+// directories. Files may hold several YAML documents or a List. Other
+// objects are ignored, and when an object is defined more than once the
+// last definition wins. Throws an InvalidResource KoreoError for a file
+// that can't be parsed or that holds a Koreo object of a version other than
+// the one that's served.
+export const loadManifests = async (
+  paths: string | string[],
+  options: ManifestLoadOptions = {}
+): Promise<KubernetesObject[]> => {
+  const files = (
+    await Promise.all(
+      (Array.isArray(paths) ? paths : [paths]).map((path) =>
+        findManifestFiles(path, options.recursive ?? true, true)
+      )
+    )
+  ).flat();
+  const objects = new Map<string, KubernetesObject>();
+  for (const file of files) {
+    (await readManifestFile(file)).forEach((object) => {
+      if (!isKoreoObject(object)) {
+        return;
+      }
+      if (object.apiVersion !== `${KOREO_GROUP}/${KOREO_VERSION}`) {
+        throw new KoreoError(
+          "InvalidResource",
+          `InvalidResource: ${file}: ${object.kind} ${object.metadata?.name} ` +
+            `has apiVersion ${object.apiVersion}, expected ` +
+            `${KOREO_GROUP}/${KOREO_VERSION}`,
+          {
+            resource: {
+              kind: object.kind!,
+              name: object.metadata?.name,
+              namespace: object.metadata?.namespace,
+            },
+          }
+        );
+      }
+      const manifest = withDefaults(object, options.namespace ?? "default");
+      objects.set(manifestKey(manifest), manifest);
+    });
+  }
+  return [...objects.values()];
+};
+
+// createManifestClient returns a client that serves the Koreo objects in the
+// given files and directories, so that graphs can be built without a
+// cluster.
+export const createManifestClient = async (
+  paths: string | string[],
+  options: ManifestLoadOptions = {}
+): Promise<KoreoClient> => {
+  return createKoreoClient({
+    backend: createInMemoryBackend(await loadManifests(paths, options)),
+  });
+};
+
+// Files named explicitly are read whatever their extension. Directory
+// entries are read in name order so that the last definition is stable.
+const findManifestFiles = async (
+  path: string,
+  recursive: boolean,
+  explicit: boolean
+): Promise<string[]> => {
+  if (!(await stat(path)).isDirectory()) {
+    return explicit || MANIFEST_EXTENSIONS.includes(extname(path))
+      ? [path]
+      : [];
+  }
+  if (!explicit && (!recursive || basename(path).startsWith("."))) {
+    return [];
+  }
+  const entries = (await readdir(path)).sort();
+  const nested = await Promise.all(
+    entries.map((entry) =>
+      findManifestFiles(join(path, entry), recursive, false)
+    )
+  );
+  return nested.flat();
+};
+
+const readManifestFile = async (file: string): Promise<unknown[]> => {
+  const contents = await readFile(file, "utf8");
+  let documents: unknown[];
+  try {
+    documents = loadAllYaml(contents);
+  } catch (err) {
+    throw new KoreoError(
+      "InvalidResource",
+      `InvalidResource: ${file}: ${err instanceof Error ? err.message : err}`,
+      { cause: err }
+    );
+  }
+  return documents.flatMap((document) =>
+    isRecord(document) &&
+    document.kind === "List" &&
+    Array.isArray(document.items)
+      ? document.items
+      : [document]
+  );
+};
+
+// Any version of a Koreo kind counts, so that the wrong version is reported
+// rather than skipped.
+const isKoreoObject = (object: unknown): object is KubernetesObject => {
+  return (
+    isRecord(object) &&
+    typeof object.apiVersion === "string" &&
+    object.apiVersion.split("/")[0] === KOREO_GROUP &&
+    typeof object.kind === "string" &&
+    Object.prototype.hasOwnProperty.call(KOREO_PLURALS, object.kind) &&
+    isRecord(object.metadata) &&
+    typeof object.metadata.name === "string"
+  );
+};
+
+// A manifest gets its namespace defaulted like kubectl would, and a uid
+// derived from its identity so that node ids are the same on every run.
+const withDefaults = (
+  object: KubernetesObject,
+  namespace: string
+): KubernetesObject => {
+  const manifest = {
+    ...object,
+    metadata: {
+      ...object.metadata,
+      namespace: object.metadata?.namespace ?? namespace,
+    },
+  };
+  manifest.metadata.uid ??= manifestUid(manifest);
+  return manifest;
+};
+
+const manifestKey = (object: KubernetesObject): string => {
+  return `${object.kind}/${object.metadata?.namespace}/${object.metadata?.name}`;
+};
+
+const manifestUid = (object: KubernetesObject): string => {
+  const hash = createHash("sha256").update(manifestKey(object)).digest("hex");
+  return [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    hash.slice(12, 16),
+    hash.slice(16, 20),
+    hash.slice(20, 32),
+  ].join("-");
+};
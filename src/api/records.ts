@@ -0,0 +1,5 @@
+// isRecord narrows a value to a plain object, as opposed to a list or a
+// primitive.
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
@@ -0,0 +1,241 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { toKoreoError } from "./errors.js";
+import {
+  ALL_NAMESPACES,
+  KOREO_GROUP,
+  KOREO_VERSION,
+  KOREO_PLURALS,
+  toNamespaceArray,
+} from "./koreo-resources.js";
+import { KoreoClient, WatchEvent, WatchHandle } from "../types/client.js";
+import { KoreoObjectKind, KoreoObjectTypes } from "../types/listing.js";
+import {
+  KoreoResourceCache,
+  KoreoResourceCacheEvent,
+  KoreoResourceCacheOptions,
+} from "../types/cache.js";
+
+const DEFAULT_KINDS: KoreoObjectKind[] = [
+  "Workflow",
+  "ValueFunction",
+  "ResourceFunction",
+  "ResourceTemplate",
+];
+const DEFAULT_RELIST_DELAY_MS = 1000;
+
+type KoreoObject = KoreoObjectTypes[KoreoObjectKind];
+
+// A stream lists and then watches a single kind in a single namespace (or
+// all namespaces), re-listing whenever the watch ends.
+type Stream = {
+  kind: KoreoObjectKind;
+  namespace: string;
+  synced: boolean;
+  handle?: WatchHandle;
+  relistTimer?: ReturnType<typeof setTimeout>;
+};
+
+// createKoreoResourceCache keeps Koreo objects indexed in memory using
+// list + watch. Attach it to a client with withResourceCache so that the
+// fetchers, and therefore graph building, read from memory.
+export const createKoreoResourceCache = (
+  options: KoreoResourceCacheOptions = {},
+  client: KoreoClient = getDefaultKoreoClient()
+): KoreoResourceCache => {
+  const namespaces = toNamespaceArray(options.namespaces ?? ALL_NAMESPACES);
+  const kinds = options.kinds ?? DEFAULT_KINDS;
+  const relistDelayMs = options.relistDelayMs ?? DEFAULT_RELIST_DELAY_MS;
+
+  // kind -> "namespace/name" -> object
+  const index = new Map<KoreoObjectKind, Map<string, KoreoObject>>(
+    kinds.map((kind) => [kind, new Map()])
+  );
+  const listeners = new Set<(event: KoreoResourceCacheEvent) => void>();
+  const streams: Stream[] = kinds.flatMap((kind) =>
+    namespaces.map((namespace) => ({ kind, namespace, synced: false }))
+  );
+  let running = false;
+
+  const emit = (event: KoreoResourceCacheEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const upsert = (kind: KoreoObjectKind, object: KoreoObject) => {
+    const objects = index.get(kind)!;
+    const key = objectKey(object);
+    const existing = objects.get(key);
+    if (
+      existing &&
+      existing.metadata?.resourceVersion === object.metadata?.resourceVersion
+    ) {
+      return;
+    }
+    objects.set(key, object);
+    emit({ type: existing ? "MODIFIED" : "ADDED", kind, object });
+  };
+
+  const remove = (kind: KoreoObjectKind, object: KoreoObject) => {
+    const objects = index.get(kind)!;
+    const key = objectKey(object);
+    const existing = objects.get(key);
+    if (existing) {
+      objects.delete(key);
+      emit({ type: "DELETED", kind, object: existing });
+    }
+  };
+
+  const list = async (stream: Stream): Promise<string | undefined> => {
+    const items: KoreoObject[] = [];
+    let continueToken: string | undefined;
+    let resourceVersion: string | undefined;
+    do {
+      const result = await client.backend.listCustomObjects<KoreoObject>({
+        group: KOREO_GROUP,
+        version: KOREO_VERSION,
+        plural: KOREO_PLURALS[stream.kind],
+        namespace: stream.namespace || undefined,
+        labelSelector: options.labelSelector,
+        continue: continueToken,
+      });
+      items.push(...result.items);
+      continueToken = result.metadata?.continue || undefined;
+      resourceVersion = result.metadata?.resourceVersion;
+    } while (continueToken);
+
+    // Replace the stream's slice of the index, emitting deletes for objects
+    // that disappeared while we weren't watching.
+    const listed = new Set(items.map(objectKey));
+    [...index.get(stream.kind)!.values()]
+      .filter(
+        (object) =>
+          (!stream.namespace ||
+            object.metadata?.namespace === stream.namespace) &&
+          !listed.has(objectKey(object))
+      )
+      .forEach((object) => remove(stream.kind, object));
+    items.forEach((object) => upsert(stream.kind, object));
+
+    return resourceVersion;
+  };
+
+  const watch = async (stream: Stream, resourceVersion?: string) => {
+    stream.handle = await client.backend.watchObjects<KoreoObject>(
+      {
+        apiVersion: `${KOREO_GROUP}/${KOREO_VERSION}`,
+        plural: KOREO_PLURALS[stream.kind],
+        namespace: stream.namespace || undefined,
+        labelSelector: options.labelSelector,
+        resourceVersion,
+      },
+      (event: WatchEvent<KoreoObject>) => {
+        if (event.type === "ADDED" || event.type === "MODIFIED") {
+          upsert(stream.kind, event.object);
+        } else if (event.type === "DELETED") {
+          remove(stream.kind, event.object);
+        } else if (event.type === "ERROR") {
+          // Most likely the resourceVersion expired, so start over.
+          restart(stream);
+        }
+      },
+      () => restart(stream)
+    );
+    if (!running) {
+      stream.handle.stop();
+    }
+  };
+
+  const sync = async (stream: Stream) => {
+    const resourceVersion = await list(stream);
+    stream.synced = true;
+    if (running) {
+      await watch(stream, resourceVersion);
+    }
+  };
+
+  const restart = (stream: Stream) => {
+    stream.handle?.stop();
+    stream.handle = undefined;
+    if (!running || stream.relistTimer) {
+      return;
+    }
+    stream.relistTimer = setTimeout(() => {
+      stream.relistTimer = undefined;
+      if (!running) {
+        return;
+      }
+      sync(stream).catch(() => restart(stream));
+    }, relistDelayMs);
+  };
+
+  return {
+    start: async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        await Promise.all(streams.map(sync));
+      } catch (err) {
+        running = false;
+        streams.forEach((stream) => stream.handle?.stop());
+        throw toKoreoError(err);
+      }
+    },
+    stop: () => {
+      running = false;
+      streams.forEach((stream) => {
+        stream.handle?.stop();
+        stream.handle = undefined;
+        clearTimeout(stream.relistTimer);
+        stream.relistTimer = undefined;
+      });
+    },
+    isSynced: () => streams.every((stream) => stream.synced),
+    get: <K extends KoreoObjectKind>(
+      kind: K,
+      namespace: string,
+      name: string
+    ): KoreoObjectTypes[K] | null | undefined => {
+      const object = index.get(kind)?.get(`${namespace}/${name}`);
+      if (object) {
+        return structuredClone(object) as KoreoObjectTypes[K];
+      }
+      const authoritative =
+        !options.labelSelector &&
+        streams.some(
+          (stream) =>
+            stream.kind === kind &&
+            stream.synced &&
+            (!stream.namespace || stream.namespace === namespace)
+        );
+      return authoritative ? null : undefined;
+    },
+    list: <K extends KoreoObjectKind>(
+      kind: K,
+      namespace?: string
+    ): KoreoObjectTypes[K][] => {
+      return [...(index.get(kind)?.values() ?? [])]
+        .filter(
+          (object) => !namespace || object.metadata?.namespace === namespace
+        )
+        .map((object) => structuredClone(object) as KoreoObjectTypes[K]);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+// withResourceCache returns a client whose fetchers read from the cache
+// whenever it can answer.
+export const withResourceCache = (
+  client: KoreoClient,
+  cache: KoreoResourceCache
+): KoreoClient => {
+  return { ...client, cache };
+};
+
+const objectKey = (object: KoreoObject): string => {
+  return `${object.metadata?.namespace ?? ""}/${object.metadata?.name}`;
+};
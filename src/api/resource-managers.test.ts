@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { KubernetesObject } from "@kubernetes/client-node";
+import {
+  buildManagedResourceIndex,
+  findManagersOf,
+} from "./resource-managers.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { ResourceManager } from "../types/resource-managers.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+const workflow = (name: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata(name),
+  spec: {
+    crdRef: { apiGroup: "acme.io", version: "v1", kind: "App" },
+    steps: [],
+  },
+});
+
+const configMap = (name: string, resourceFunction = "map") => ({
+  apiVersion: "v1",
+  kind: "ConfigMap",
+  name,
+  namespace: NAMESPACE,
+  readonly: false,
+  resourceFunction,
+});
+
+const parent = (name: string, managedResources: unknown) => ({
+  apiVersion: "acme.io/v1",
+  kind: "App",
+  metadata: {
+    ...metadata(name),
+    annotations: {
+      "koreo.dev/managed-resources": JSON.stringify(managedResources),
+    },
+  },
+});
+
+const OBJECTS = [
+  workflow("app"),
+  workflow("other"),
+  parent("my-app", {
+    workflow: "app",
+    resources: {
+      config: configMap("config"),
+      maps: [configMap("a"), configMap("shared")],
+      tier: {
+        workflow: "tier",
+        resources: { map: configMap("inner", "tier-map") },
+      },
+    },
+  }),
+  // Shares the CRD of app but belongs to the other Workflow.
+  parent("other-app", {
+    workflow: "other",
+    resources: { config: configMap("shared") },
+  }),
+];
+
+const createClient = (objects: KubernetesObject[] = OBJECTS) =>
+  createKoreoClient({ backend: createInMemoryBackend(objects) });
+
+const describeManager = (manager: ResourceManager) => ({
+  parent: manager.parent.metadata?.name,
+  workflow: manager.workflow.metadata?.name,
+  stepPath: manager.stepPath,
+  resourceFunction: manager.resourceFunction,
+});
+
+describe("findManagersOf", () => {
+  it("finds the step managing a resource", async () => {
+    const managers = await findManagersOf(
+      configMap("config"),
+      {},
+      createClient()
+    );
+
+    expect(managers.map(describeManager)).toEqual([
+      {
+        parent: "my-app",
+        workflow: "app",
+        stepPath: [{ workflow: "app", label: "config" }],
+        resourceFunction: "map",
+      },
+    ]);
+  });
+
+  it("records the path through forEach steps and sub-workflows", async () => {
+    const client = createClient();
+
+    expect(
+      (await findManagersOf(configMap("a"), {}, client)).map(describeManager)
+    ).toEqual([
+      {
+        parent: "my-app",
+        workflow: "app",
+        stepPath: [{ workflow: "app", label: "maps", forEachIndex: 0 }],
+        resourceFunction: "map",
+      },
+    ]);
+    expect(
+      (await findManagersOf(configMap("inner"), {}, client)).map(
+        describeManager
+      )
+    ).toEqual([
+      {
+        parent: "my-app",
+        workflow: "app",
+        stepPath: [
+          { workflow: "app", label: "tier" },
+          { workflow: "tier", label: "map" },
+        ],
+        resourceFunction: "tier-map",
+      },
+    ]);
+  });
+
+  it("attributes parents to the Workflow named in their annotation", async () => {
+    const managers = await findManagersOf(
+      configMap("shared"),
+      {},
+      createClient()
+    );
+
+    expect(
+      managers.map((manager) => [
+        manager.parent.metadata?.name,
+        manager.workflow.metadata?.name,
+      ])
+    ).toEqual([
+      ["my-app", "app"],
+      ["other-app", "other"],
+    ]);
+  });
+
+  it("returns nothing for an unmanaged resource", async () => {
+    expect(
+      await findManagersOf(configMap("unmanaged"), {}, createClient())
+    ).toEqual([]);
+  });
+
+  it("reports invalid Workflows and annotations to onInvalid", async () => {
+    const invalid: string[] = [];
+    const managers = await findManagersOf(
+      configMap("config"),
+      { onInvalid: (err) => invalid.push(err.message) },
+      createClient([
+        workflow("app"),
+        {
+          apiVersion: "koreo.dev/v1beta1",
+          kind: "Workflow",
+          metadata: metadata("no-spec"),
+        },
+        parent("my-app", {
+          workflow: "app",
+          resources: {
+            config: configMap("config"),
+            broken: { ...configMap("broken"), readonly: undefined },
+          },
+        }),
+      ])
+    );
+
+    expect(managers).toHaveLength(1);
+    expect(invalid).toEqual([
+      expect.stringContaining("InvalidResource: Workflow test/no-spec: spec"),
+      expect.stringContaining(
+        "App test/my-app: invalid managed-resources annotation: resources.broken.readonly: is required"
+      ),
+    ]);
+  });
+});
+
+describe("buildManagedResourceIndex", () => {
+  it("indexes every managed resource for findManagersOf", async () => {
+    const index = await buildManagedResourceIndex(NAMESPACE, createClient());
+
+    expect(index.managers.size).toBe(4);
+    // The index is used instead of the client.
+    const managers = await findManagersOf(
+      configMap("shared"),
+      { index },
+      createClient([])
+    );
+    expect(managers.map(describeManager)).toEqual([
+      {
+        parent: "my-app",
+        workflow: "app",
+        stepPath: [{ workflow: "app", label: "maps", forEachIndex: 1 }],
+        resourceFunction: "map",
+      },
+      {
+        parent: "other-app",
+        workflow: "other",
+        stepPath: [{ workflow: "other", label: "config" }],
+        resourceFunction: "map",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { toKoreoError } from "./errors.js";
+import { ALL_NAMESPACES } from "./koreo-resources.js";
+import { listWorkflows, getWorkflowInstances } from "./workflows.js";
+import {
+  getManagedResourcesError,
+  parseManagedResources,
+  collectManagedResources,
+  isKubernetesResource,
+} from "./managed-resources.js";
+import { KoreoClient, KubernetesObjectRef } from "../types/client.js";
+import { Workflow, WorkflowParent } from "../types/workflow.js";
+import {
+  ManagedResources,
+  ManagedResource,
+} from "../types/managed-resource.js";
+import {
+  FindManagersOptions,
+  ManagedResourceIndex,
+  ManagedResourceStep,
+  ResourceManager,
+} from "../types/resource-managers.js";
+
+type ManagedParent = {
+  workflow: Workflow;
+  parent: WorkflowParent;
+  managedResources: ManagedResources;
+};
+
+// findManagersOf finds the Workflow instances and steps that manage a
+// resource by scanning the managed-resources annotations of every Workflow's
+// parents. A resource is usually managed by a single step, but several
+// entries are returned if more than one step records it.
+export const findManagersOf = async (
+  resource: KubernetesObjectRef,
+  options: FindManagersOptions = {},
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<ResourceManager[]> => {
+  const key = resourceKey(resource);
+  if (options.index) {
+    return options.index.managers.get(key) ?? [];
+  }
+
+  const parents = await listManagedParents(
+    options.namespaces ?? ALL_NAMESPACES,
+    client,
+    options.onInvalid
+  );
+  return parents.flatMap((managedParent) =>
+    // Most parents don't manage the resource, so check before walking the
+    // annotation for step paths.
+    collectManagedResources(managedParent.managedResources).some(
+      (managed) => resourceKey(managed) === key
+    )
+      ? getManagers(managedParent).filter(
+          (manager) => resourceKey(manager.resource) === key
+        )
+      : []
+  );
+};
+
+// buildManagedResourceIndex scans the parents once so that many resources
+// can be looked up with findManagersOf.
+export const buildManagedResourceIndex = async (
+  namespaces: string | string[] = ALL_NAMESPACES,
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: Pick<FindManagersOptions, "onInvalid"> = {}
+): Promise<ManagedResourceIndex> => {
+  const managers = new Map<string, ResourceManager[]>();
+  (await listManagedParents(namespaces, client, options.onInvalid)).forEach(
+    (managedParent) =>
+      getManagers(managedParent).forEach((manager) => {
+        const key = resourceKey(manager.resource);
+        managers.set(key, [...(managers.get(key) ?? []), manager]);
+      })
+  );
+  return { managers };
+};
+
+// Parents are only attributed to the Workflow named in their annotation,
+// since several Workflows may share a crdRef. Workflows whose CRD isn't
+// served have no parents.
+const listManagedParents = async (
+  namespaces: string | string[],
+  client: KoreoClient,
+  onInvalid?: (err: Error) => void
+): Promise<ManagedParent[]> => {
+  const workflows = await listWorkflows(namespaces, client, { onInvalid });
+  const parents = await Promise.all(
+    workflows.map(async (workflow) => {
+      let instances: WorkflowParent[];
+      try {
+        instances = await getWorkflowInstances(workflow, client);
+      } catch (err) {
+        if (toKoreoError(err).reason === "NotFound") {
+          return [];
+        }
+        throw err;
+      }
+      const managedParents = instances
+        .map((parent) => ({
+          workflow,
+          parent,
+          managedResources: parseManagedResources(parent),
+        }))
+        .filter(
+          ({ managedResources }) =>
+            managedResources.workflow === workflow.metadata?.name
+        );
+      managedParents.forEach(({ parent }) => {
+        const error = getManagedResourcesError(parent);
+        if (error) {
+          onInvalid?.(error);
+        }
+      });
+      return managedParents;
+    })
+  );
+  return parents.flat();
+};
+
+const getManagers = ({
+  workflow,
+  parent,
+  managedResources,
+}: ManagedParent): ResourceManager[] => {
+  const managers: ResourceManager[] = [];
+  const visit = (
+    resources: ManagedResources,
+    stepPath: ManagedResourceStep[]
+  ) => {
+    Object.entries(resources.resources).forEach(([label, resource]) => {
+      const step = { workflow: resources.workflow, label };
+      if (Array.isArray(resource)) {
+        resource.forEach((item, forEachIndex) =>
+          visitResource(item, [...stepPath, { ...step, forEachIndex }])
+        );
+      } else {
+        visitResource(resource, [...stepPath, step]);
+      }
+    });
+  };
+  const visitResource = (
+    resource: ManagedResource,
+    stepPath: ManagedResourceStep[]
+  ) => {
+    if (resource === null || Array.isArray(resource)) {
+      return;
+    }
+    if (isKubernetesResource(resource)) {
+      managers.push({
+        parent,
+        workflow,
+        stepPath,
+        resourceFunction: resource.resourceFunction,
+        resource,
+      });
+      return;
+    }
+    visit(resource, stepPath);
+  };
+  visit(managedResources, []);
+  return managers;
+};
+
+const resourceKey = ({
+  apiVersion,
+  kind,
+  namespace,
+  name,
+}: KubernetesObjectRef): string => {
+  return `${apiVersion}/${kind}/${namespace ?? ""}/${name}`;
+};
@@ -1,51 +1,70 @@
-import { getK8sCRDApi } from "./kubernetes";
-import { ResourceTemplate } from "../types/resource-template";
-
-const GROUP = "koreo.dev";
-const VERSION = "v1beta1";
-const PLURAL = "resourcetemplates";
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { toKoreoError } from "./errors.js";
+import { assertSchema, validateResourceTemplateSchema } from "./schemas.js";
+import {
+  KOREO_GROUP,
+  KOREO_VERSION,
+  KOREO_PLURALS,
+} from "./koreo-resources.js";
+import { listKoreoObjects, iterateKoreoObjects } from "./listing.js";
+import { ResourceTemplate } from "../types/resource-template.js";
+import { KoreoClient } from "../types/client.js";
+import { ListOptions } from "../types/listing.js";
 
 export const listResourceTemplates = async (
-  namespaces: string | string[]
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
 ): Promise<ResourceTemplate[]> => {
-  const api = getK8sCRDApi();
-  const namespaceArray = Array.isArray(namespaces) ? namespaces : [namespaces];
-
-  try {
-    const templatePromises = namespaceArray.map((namespace) =>
-      api.listNamespacedCustomObject({
-        group: GROUP,
-        version: VERSION,
-        namespace,
-        plural: PLURAL,
-      })
-    );
-
-    const results = await Promise.all(templatePromises);
+  return listKoreoObjects("ResourceTemplate", namespaces, client, options);
+};
 
-    return results.flatMap((result) => result.items);
-  } catch (err) {
-    console.error(
-      `Failed to get resource templates for namespaces ${namespaceArray}`
-    );
-    return [];
-  }
+export const iterateResourceTemplates = (
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
+): AsyncGenerator<ResourceTemplate> => {
+  return iterateKoreoObjects("ResourceTemplate", namespaces, client, options);
 };
 
+// Returns null if the ResourceTemplate does not exist. Any other failure is
+// thrown as a KoreoError.
 export const getResourceTemplate = async (
   templateId: string,
-  namespace: string
+  namespace: string,
+  client: KoreoClient = getDefaultKoreoClient()
 ): Promise<ResourceTemplate | null> => {
-  const api = getK8sCRDApi();
+  const resource = { kind: "ResourceTemplate", name: templateId, namespace };
+  const cached = client.cache?.get("ResourceTemplate", namespace, templateId);
+  if (cached !== undefined) {
+    return (
+      cached &&
+      assertSchema<ResourceTemplate>(
+        cached,
+        validateResourceTemplateSchema,
+        resource
+      )
+    );
+  }
+
+  const api = client.backend;
   try {
-    return api.getNamespacedCustomObject({
-      group: GROUP,
-      version: VERSION,
-      namespace,
-      plural: PLURAL,
-      name: templateId,
-    });
+    return assertSchema<ResourceTemplate>(
+      await api.getCustomObject({
+        group: KOREO_GROUP,
+        version: KOREO_VERSION,
+        namespace,
+        plural: KOREO_PLURALS.ResourceTemplate,
+        name: templateId,
+      }),
+      validateResourceTemplateSchema,
+      resource
+    );
   } catch (err) {
-    return null;
+    const error = toKoreoError(err, resource);
+    if (error.reason === "NotFound") {
+      return null;
+    }
+    throw error;
   }
 };
@@ -0,0 +1,425 @@
+import { KoreoError } from "./errors.js";
+import { KOREO_GROUP } from "./koreo-resources.js";
+import { isRecord } from "./records.js";
+import { KoreoErrorResource } from "../types/errors.js";
+import { SchemaIssue } from "../types/schema.js";
+
+// A Check validates a value, appending an issue for each problem it finds.
+// Checks marked required also report a missing value. Fields that aren't
+// part of the schema are allowed.
+type Check = ((value: unknown, path: string, issues: SchemaIssue[]) => void) & {
+  required?: boolean;
+};
+
+// validateWorkflowSchema checks that a value is structurally a Workflow.
+export const validateWorkflowSchema = (value: unknown): SchemaIssue[] => {
+  return runCheck(workflow, value);
+};
+
+// validateStepSchema checks a single Workflow step. Issue paths are relative
+// to the step.
+export const validateStepSchema = (value: unknown): SchemaIssue[] => {
+  return runCheck(step, value);
+};
+
+// validateFunctionSchema checks a ValueFunction or ResourceFunction
+// depending on its kind.
+export const validateFunctionSchema = (value: unknown): SchemaIssue[] => {
+  const kind = isRecord(value) ? value.kind : undefined;
+  if (kind === "ValueFunction") {
+    return runCheck(valueFunction, value);
+  }
+  if (kind === "ResourceFunction") {
+    return runCheck(resourceFunction, value);
+  }
+  return [
+    {
+      path: "kind",
+      message: `expected "ValueFunction" or "ResourceFunction", got ${describe(
+        kind
+      )}`,
+    },
+  ];
+};
+
+export const validateResourceTemplateSchema = (
+  value: unknown
+): SchemaIssue[] => {
+  return runCheck(resourceTemplate, value);
+};
+
+// validateKubernetesResourceSchema checks a single resource recorded in a
+// managed-resources annotation.
+export const validateKubernetesResourceSchema = (
+  value: unknown
+): SchemaIssue[] => {
+  return runCheck(kubernetesResource, value);
+};
+
+// validateManagedResourcesSchema checks the parsed value of a parent's
+// managed-resources annotation.
+export const validateManagedResourcesSchema = (
+  value: unknown
+): SchemaIssue[] => {
+  return runCheck(managedResources, value);
+};
+
+// assertSchema returns the value as its declared type if it passes
+// validation and otherwise throws an InvalidResource KoreoError listing the
+// issues.
+export const assertSchema = <T>(
+  value: unknown,
+  validate: (value: unknown) => SchemaIssue[],
+  resource: KoreoErrorResource
+): T => {
+  const issues = validate(value);
+  if (issues.length > 0) {
+    throw schemaError(resource, issues);
+  }
+  return value as T;
+};
+
+// schemaError returns the InvalidResource KoreoError for a resource that
+// failed validation.
+export const schemaError = (
+  resource: KoreoErrorResource,
+  issues: SchemaIssue[]
+): KoreoError => {
+  const target = [
+    resource.kind,
+    [resource.namespace, resource.name].filter(Boolean).join("/"),
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return new KoreoError(
+    "InvalidResource",
+    `InvalidResource: ${target}: ${formatSchemaIssues(issues)}`,
+    { resource, issues }
+  );
+};
+
+export const formatSchemaIssues = (issues: SchemaIssue[]): string => {
+  return issues
+    .map((issue) =>
+      issue.path ? `${issue.path}: ${issue.message}` : issue.message
+    )
+    .join("; ");
+};
+
+const runCheck = (check: Check, value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  check(value, "", issues);
+  return issues;
+};
+
+const required = (check: Check): Check => {
+  return Object.assign(
+    (value: unknown, path: string, issues: SchemaIssue[]) =>
+      check(value, path, issues),
+    { required: true }
+  );
+};
+
+const typeCheck = (
+  expected: string,
+  test: (value: unknown) => boolean
+): Check => {
+  return (value, path, issues) => {
+    if (!test(value)) {
+      issues.push({
+        path,
+        message: `expected ${expected}, got ${describe(value)}`,
+      });
+    }
+  };
+};
+
+const string = typeCheck("a string", (value) => typeof value === "string");
+const nonEmptyString = typeCheck(
+  "a non-empty string",
+  (value) => typeof value === "string" && value.length > 0
+);
+const boolean = typeCheck("a bool", (value) => typeof value === "boolean");
+const number = typeCheck("a number", (value) => typeof value === "number");
+const record = typeCheck("an object", (value) => isRecord(value));
+
+const oneOf = (...values: string[]): Check => {
+  return typeCheck(
+    values.length === 1
+      ? `"${values[0]}"`
+      : `one of ${values.map((value) => `"${value}"`).join(", ")}`,
+    (value) => values.includes(value as string)
+  );
+};
+
+const listOf = (item: Check): Check => {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected a list, got ${describe(value)}` });
+      return;
+    }
+    value.forEach((element, i) => item(element, `${path}[${i}]`, issues));
+  };
+};
+
+const mapOf = (item: Check): Check => {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      record(value, path, issues);
+      return;
+    }
+    Object.entries(value).forEach(([key, element]) =>
+      item(element, keyPath(path, key), issues)
+    );
+  };
+};
+
+// shape checks an object's fields. Optional fields may be missing or null.
+const shape = (fields: Record<string, Check>): Check => {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      record(value, path, issues);
+      return;
+    }
+    Object.entries(fields).forEach(([key, check]) => {
+      const fieldPath = keyPath(path, key);
+      if (value[key] === undefined || value[key] === null) {
+        if (check.required) {
+          issues.push({ path: fieldPath, message: "is required" });
+        }
+        return;
+      }
+      check(value[key], fieldPath, issues);
+    });
+  };
+};
+
+// exactlyOne requires an object to have exactly one of the keys, e.g. the
+// outcome of a condition.
+const exactlyOne = (keys: string[], check: Check): Check => {
+  return (value, path, issues) => {
+    check(value, path, issues);
+    if (
+      isRecord(value) &&
+      keys.filter((key) => value[key] !== undefined).length !== 1
+    ) {
+      issues.push({
+        path,
+        message: `expected exactly one of ${keys.join(", ")}`,
+      });
+    }
+  };
+};
+
+const koreoApiVersion = typeCheck(
+  `a ${KOREO_GROUP} API version`,
+  (value) => typeof value === "string" && value.split("/")[0] === KOREO_GROUP
+);
+
+const koreoObject = (kind: string, spec: Check): Check => {
+  return shape({
+    apiVersion: required(koreoApiVersion),
+    kind: required(oneOf(kind)),
+    metadata: required(
+      shape({
+        name: required(nonEmptyString),
+        namespace: string,
+        labels: mapOf(string),
+        annotations: mapOf(string),
+      })
+    ),
+    spec: required(spec),
+  });
+};
+
+const logicKind = oneOf("ResourceFunction", "ValueFunction", "Workflow");
+
+const step = shape({
+  label: required(nonEmptyString),
+  ref: shape({
+    kind: required(logicKind),
+    name: required(nonEmptyString),
+  }),
+  refSwitch: shape({
+    switchOn: required(string),
+    cases: listOf(
+      shape({
+        case: required(string),
+        default: boolean,
+        kind: required(logicKind),
+        name: required(nonEmptyString),
+      })
+    ),
+  }),
+  skipIf: string,
+  forEach: shape({
+    itemIn: required(string),
+    inputKey: required(nonEmptyString),
+  }),
+  inputs: record,
+  condition: shape({
+    type: required(nonEmptyString),
+    name: required(string),
+  }),
+});
+
+const workflow = koreoObject(
+  "Workflow",
+  shape({
+    crdRef: shape({
+      apiGroup: required(string),
+      version: required(nonEmptyString),
+      kind: required(nonEmptyString),
+    }),
+    steps: required(listOf(step)),
+  })
+);
+
+const outcomeMessage = shape({ message: required(string) });
+
+const CONDITION_OUTCOMES = [
+  "defaultReturn",
+  "skip",
+  "depSkip",
+  "retry",
+  "permFail",
+];
+
+const functionCondition = exactlyOne(
+  CONDITION_OUTCOMES,
+  shape({
+    assert: required(string),
+    defaultReturn: record,
+    skip: outcomeMessage,
+    depSkip: outcomeMessage,
+    retry: shape({ message: required(string), delay: required(number) }),
+    permFail: outcomeMessage,
+  })
+);
+
+const valueFunction = koreoObject(
+  "ValueFunction",
+  shape({
+    preconditions: listOf(functionCondition),
+    locals: record,
+    return: record,
+  })
+);
+
+const overlay: Check = (value, path, issues) => {
+  if (isRecord(value) && value.overlayRef !== undefined) {
+    shape({
+      overlayRef: required(
+        shape({
+          kind: required(oneOf("ValueFunction")),
+          name: required(nonEmptyString),
+        })
+      ),
+      inputs: record,
+      skipIf: string,
+    })(value, path, issues);
+    return;
+  }
+  shape({ overlay: required(record), skipIf: string })(value, path, issues);
+};
+
+const delay = shape({ delay: number });
+
+const resourceFunction = koreoObject(
+  "ResourceFunction",
+  shape({
+    preconditions: listOf(functionCondition),
+    locals: record,
+    apiConfig: required(
+      shape({
+        apiVersion: required(nonEmptyString),
+        kind: required(nonEmptyString),
+        name: required(string),
+        namespace: string,
+        namespaced: boolean,
+        owned: boolean,
+        plural: string,
+        readonly: boolean,
+        deleteIfExists: boolean,
+      })
+    ),
+    resource: record,
+    resourceTemplateRef: shape({ name: required(nonEmptyString) }),
+    overlays: listOf(overlay),
+    create: shape({ enabled: boolean, delay: number, overlay: record }),
+    update: exactlyOne(
+      ["patch", "recreate", "never"],
+      shape({ patch: delay, recreate: delay, never: record })
+    ),
+    delete: exactlyOne(
+      ["abandon", "destroy"],
+      shape({ abandon: record, destroy: record })
+    ),
+    postconditions: listOf(functionCondition),
+    return: record,
+  })
+);
+
+const resourceTemplate = koreoObject(
+  "ResourceTemplate",
+  shape({ context: record, template: required(record) })
+);
+
+const kubernetesResource = shape({
+  apiVersion: required(nonEmptyString),
+  kind: required(nonEmptyString),
+  plural: string,
+  name: required(nonEmptyString),
+  readonly: required(boolean),
+  namespace: string,
+  resourceFunction: required(string),
+});
+
+// A managed resource is a resource, a sub-workflow's resources, a list of
+// either for a forEach step, or null for a step without resources.
+const managedResource: Check = (value, path, issues) => {
+  if (value === null) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) =>
+      resourceOrWorkflow(item, `${path}[${i}]`, issues)
+    );
+    return;
+  }
+  resourceOrWorkflow(value, path, issues);
+};
+
+const resourceOrWorkflow: Check = (value, path, issues) => {
+  if (isRecord(value) && "resources" in value) {
+    managedResources(value, path, issues);
+  } else {
+    kubernetesResource(value, path, issues);
+  }
+};
+
+const managedResources = shape({
+  workflow: required(string),
+  resources: required(mapOf(managedResource)),
+});
+
+// Keys that aren't identifiers, e.g. annotation names, are bracketed.
+const keyPath = (path: string, key: string): string => {
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return `${path}[${JSON.stringify(key)}]`;
+  }
+  return path ? `${path}.${key}` : key;
+};
+
+const describe = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return `${value}`;
+  }
+  if (Array.isArray(value)) {
+    return "a list";
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  return typeof value === "object" ? "an object" : `${typeof value} ${value}`;
+};
@@ -0,0 +1,61 @@
+import { getReferences, isExpression } from "./expressions.js";
+import { ExpressionSyntaxError } from "./errors.js";
+
+export type StepReference = {
+  label: string;
+  // Where the expression was found, e.g. "inputs.name" or "forEach.itemIn".
+  path: string;
+};
+
+export type EmbeddedExpression = {
+  expression: string;
+  path: string;
+};
+
+// findExpressions walks a step field, returning every expression ("=..."
+// string) in it along with where it was found.
+export const findExpressions = (
+  value: unknown,
+  path: string
+): EmbeddedExpression[] => {
+  if (isExpression(value)) {
+    return [{ expression: value, path }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => findExpressions(item, `${path}[${i}]`));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([key, nestedValue]) =>
+      findExpressions(nestedValue, path ? `${path}.${key}` : key)
+    );
+  }
+  return [];
+};
+
+// getStepLabels returns the labels of the steps an expression reads from,
+// e.g. "config" for `=steps.config.name` or `=steps['config'].name`.
+export const getStepLabels = (expression: string): string[] => {
+  const labels = getReferences(expression)
+    .filter((reference) => reference.root === "steps")
+    .map((reference) => reference.path[0])
+    .filter((label): label is string => label !== undefined);
+  return [...new Set(labels)];
+};
+
+// findStepReferences returns the steps referenced by any expressions in a
+// step field. Invalid expressions are skipped; validateWorkflow reports them.
+export const findStepReferences = (
+  value: unknown,
+  path: string
+): StepReference[] => {
+  return findExpressions(value, path).flatMap(({ expression, path }) => {
+    try {
+      return getStepLabels(expression).map((label) => ({ label, path }));
+    } catch (err) {
+      if (err instanceof ExpressionSyntaxError) {
+        return [];
+      }
+      throw err;
+    }
+  });
+};
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { KubernetesObject } from "@kubernetes/client-node";
+import { findUsages } from "./usages.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { Step } from "../types/workflow.js";
+import { FindUsagesOptions, StepUsage, UsageKind } from "../types/usages.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+const workflow = (name: string, steps: Step[], crdKind?: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata(name),
+  spec: {
+    ...(crdKind
+      ? { crdRef: { apiGroup: "acme.io", version: "v1", kind: crdKind } }
+      : {}),
+    steps,
+  },
+});
+
+const configMap = (name: string, resourceFunction = "map") => ({
+  apiVersion: "v1",
+  kind: "ConfigMap",
+  name,
+  namespace: NAMESPACE,
+  readonly: false,
+  resourceFunction,
+});
+
+const parent = (name: string, managedResources: unknown) => ({
+  apiVersion: "acme.io/v1",
+  kind: "App",
+  metadata: {
+    ...metadata(name),
+    annotations: {
+      "koreo.dev/managed-resources": JSON.stringify(managedResources),
+    },
+  },
+});
+
+const usages = (
+  objects: KubernetesObject[],
+  kind: UsageKind,
+  name: string,
+  options: FindUsagesOptions = {}
+): Promise<StepUsage[]> => {
+  const client = createKoreoClient({
+    backend: createInMemoryBackend(objects),
+  });
+  return findUsages(kind, name, NAMESPACE, options, client);
+};
+
+// describeUsage lists the Workflow and step of a usage and of each usage it
+// goes through, outermost first.
+const describeUsage = (usage: StepUsage): string[] => {
+  return [
+    `${usage.workflow.metadata?.name}.${usage.stepLabel}`,
+    ...(usage.via ? describeUsage(usage.via) : []),
+  ];
+};
+
+describe("findUsages", () => {
+  it("finds direct and transitive usages through sub-workflows", async () => {
+    const result = await usages(
+      [
+        workflow("app", [
+          { label: "tier", ref: { kind: "Workflow", name: "tier" } },
+        ]),
+        workflow("tier", [
+          { label: "map", ref: { kind: "ResourceFunction", name: "map" } },
+        ]),
+        workflow("unrelated", [
+          { label: "other", ref: { kind: "ResourceFunction", name: "other" } },
+        ]),
+      ],
+      "ResourceFunction",
+      "map"
+    );
+
+    expect(result.map(describeUsage)).toEqual([
+      ["tier.map"],
+      ["app.tier", "tier.map"],
+    ]);
+    expect(result[1].path).toBe("spec.steps[0].ref");
+  });
+
+  it("finds refSwitch cases", async () => {
+    const result = await usages(
+      [
+        workflow("app", [
+          {
+            label: "config",
+            refSwitch: {
+              switchOn: "=parent.spec.mode",
+              cases: [
+                { case: "a", kind: "ValueFunction", name: "other" },
+                { case: "b", kind: "ValueFunction", name: "value" },
+              ],
+            },
+          },
+        ]),
+      ],
+      "ValueFunction",
+      "value"
+    );
+
+    expect(result.map(describeUsage)).toEqual([["app.config"]]);
+    expect(result[0].path).toBe("spec.steps[0].refSwitch.cases[1]");
+  });
+
+  it("stops at Workflows that reference themselves", async () => {
+    const result = await usages(
+      [
+        workflow("loop", [
+          { label: "map", ref: { kind: "ResourceFunction", name: "map" } },
+          { label: "again", ref: { kind: "Workflow", name: "loop" } },
+        ]),
+      ],
+      "ResourceFunction",
+      "map"
+    );
+
+    expect(result.map(describeUsage)).toEqual([
+      ["loop.map"],
+      ["loop.again", "loop.map"],
+    ]);
+  });
+
+  it("counts the instances and resources of each usage", async () => {
+    const invalid: string[] = [];
+    const result = await usages(
+      [
+        workflow(
+          "app",
+          [
+            { label: "map", ref: { kind: "ResourceFunction", name: "map" } },
+            { label: "tier", ref: { kind: "Workflow", name: "tier" } },
+          ],
+          "App"
+        ),
+        workflow(
+          "tier",
+          [{ label: "maps", ref: { kind: "ResourceFunction", name: "map" } }],
+          "App"
+        ),
+        parent("one", {
+          workflow: "app",
+          resources: {
+            map: configMap("one"),
+            tier: {
+              workflow: "tier",
+              resources: { maps: [configMap("a"), configMap("b")] },
+            },
+          },
+        }),
+        parent("two", {
+          workflow: "app",
+          resources: {
+            map: { ...configMap("two"), readonly: undefined },
+            tier: { workflow: "tier", resources: {} },
+          },
+        }),
+        // Shares the CRD but is an instance of tier.
+        parent("three", {
+          workflow: "tier",
+          resources: { maps: [configMap("c")] },
+        }),
+      ],
+      "ResourceFunction",
+      "map",
+      { countInstances: true, onInvalid: (err) => invalid.push(err.message) }
+    );
+
+    expect(
+      result.map((usage) => [
+        describeUsage(usage),
+        usage.instances,
+        usage.managedResources,
+      ])
+    ).toEqual([
+      [["app.map"], 2, 1],
+      [["tier.maps"], 1, 1],
+      [["app.tier", "tier.maps"], 2, 2],
+    ]);
+    expect(invalid).toEqual([
+      expect.stringContaining(
+        "App test/two: invalid managed-resources annotation"
+      ),
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { toKoreoError } from "./errors.js";
+import { listWorkflows, getWorkflowInstances } from "./workflows.js";
+import {
+  getManagedResourcesError,
+  parseManagedResources,
+  countManagedResources,
+  isKubernetesResource,
+  isManagedResources,
+} from "./managed-resources.js";
+import { KoreoClient } from "../types/client.js";
+import { Workflow, WorkflowParent } from "../types/workflow.js";
+import { ManagedResources } from "../types/managed-resource.js";
+import { FindUsagesOptions, StepUsage, UsageKind } from "../types/usages.js";
+
+type StepRef = {
+  kind: UsageKind;
+  name: string;
+  stepLabel: string;
+  path: string;
+};
+
+// findUsages finds every step that references a function or Workflow in the
+// given namespaces, including steps that reach it through sub-workflows. A
+// step is listed once for each way it reaches the target, with the direct
+// usage first and the steps that run its Workflow after it.
+export const findUsages = async (
+  kind: UsageKind,
+  name: string,
+  namespaces: string | string[],
+  options: FindUsagesOptions = {},
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<StepUsage[]> => {
+  const workflows = await listWorkflows(namespaces, client, {
+    onInvalid: options.onInvalid,
+  });
+
+  // References are resolved within a Workflow's own namespace.
+  const byNamespace = new Map<string, Workflow[]>();
+  workflows.forEach((workflow) => {
+    const namespace = workflow.metadata?.namespace ?? "";
+    byNamespace.set(namespace, [
+      ...(byNamespace.get(namespace) ?? []),
+      workflow,
+    ]);
+  });
+  const usages = [...byNamespace.values()].flatMap((namespaceWorkflows) =>
+    collectUsages(
+      namespaceWorkflows,
+      kind,
+      name,
+      undefined,
+      kind === "Workflow" ? [name] : []
+    )
+  );
+
+  if (!options.countInstances) {
+    return usages;
+  }
+  const instances = new Map<Workflow, Promise<WorkflowParent[]>>();
+  return Promise.all(
+    usages.map(async (usage) => {
+      if (!instances.has(usage.workflow)) {
+        instances.set(
+          usage.workflow,
+          listInstances(usage.workflow, client).then((parents) => {
+            // Workflows sharing a crdRef list the same parents, so keep the
+            // ones whose annotation names this Workflow.
+            const managed = parents.filter(
+              (parent) =>
+                parseManagedResources(parent).workflow ===
+                usage.workflow.metadata?.name
+            );
+            managed.forEach((parent) => {
+              const error = getManagedResourcesError(parent);
+              if (error) {
+                options.onInvalid?.(error);
+              }
+            });
+            return managed;
+          })
+        );
+      }
+      const parents = await instances.get(usage.workflow)!;
+      return {
+        ...usage,
+        instances: parents.length,
+        managedResources: parents.reduce(
+          (sum, parent) =>
+            sum +
+            countRecorded(parseManagedResources(parent), usage, kind, name),
+          0
+        ),
+      };
+    })
+  );
+};
+
+// ancestors holds the Workflows already on the path to the target so that
+// Workflows that reference themselves don't recurse forever.
+const collectUsages = (
+  workflows: Workflow[],
+  kind: UsageKind,
+  name: string,
+  via: StepUsage | undefined,
+  ancestors: string[]
+): StepUsage[] => {
+  return workflows.flatMap((workflow) =>
+    getStepRefs(workflow)
+      .filter((ref) => ref.kind === kind && ref.name === name)
+      .flatMap((ref) => {
+        const usage: StepUsage = {
+          workflow,
+          stepLabel: ref.stepLabel,
+          path: ref.path,
+          via,
+        };
+        const workflowId = workflow.metadata?.name ?? "";
+        if (ancestors.includes(workflowId)) {
+          return [usage];
+        }
+        return [
+          usage,
+          ...collectUsages(workflows, "Workflow", workflowId, usage, [
+            ...ancestors,
+            workflowId,
+          ]),
+        ];
+      })
+  );
+};
+
+const getStepRefs = (workflow: Workflow): StepRef[] => {
+  return (workflow.spec.steps ?? []).flatMap((step, index) => {
+    const path = `spec.steps[${index}]`;
+    return [
+      ...(step.ref
+        ? [{ ...step.ref, stepLabel: step.label, path: `${path}.ref` }]
+        : []),
+      ...(step.refSwitch?.cases ?? []).map((switchCase, i) => ({
+        kind: switchCase.kind,
+        name: switchCase.name,
+        stepLabel: step.label,
+        path: `${path}.refSwitch.cases[${i}]`,
+      })),
+    ];
+  });
+};
+
+// A Workflow whose CRD isn't served has no instances.
+const listInstances = async (
+  workflow: Workflow,
+  client: KoreoClient
+): Promise<WorkflowParent[]> => {
+  try {
+    return await getWorkflowInstances(workflow, client);
+  } catch (err) {
+    if (toKoreoError(err).reason === "NotFound") {
+      return [];
+    }
+    throw err;
+  }
+};
+
+// countRecorded follows the usage's steps down a parent's managed-resources
+// annotation and counts what the target recorded. Only entries made by the
+// referenced function or sub-workflow count, as a refSwitch step records
+// whichever case ran. A forEach step records a list with an entry per item.
+const countRecorded = (
+  managedResources: ManagedResources,
+  usage: StepUsage,
+  kind: UsageKind,
+  name: string
+): number => {
+  const recorded = managedResources.resources[usage.stepLabel] ?? null;
+  const entries = Array.isArray(recorded) ? recorded : [recorded];
+  const via = usage.via;
+  if (via) {
+    return entries
+      .filter(isManagedResources)
+      .filter((nested) => nested.workflow === via.workflow.metadata?.name)
+      .reduce((sum, nested) => sum + countRecorded(nested, via, kind, name), 0);
+  }
+  switch (kind) {
+    case "ResourceFunction":
+      return entries.filter(
+        (entry) =>
+          isKubernetesResource(entry) && entry.resourceFunction === name
+      ).length;
+    case "Workflow":
+      return entries
+        .filter(isManagedResources)
+        .filter((nested) => nested.workflow === name)
+        .reduce((sum, nested) => sum + countManagedResources(nested), 0);
+    default:
+      return 0;
+  }
+};
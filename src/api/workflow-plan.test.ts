@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import { KubernetesObject } from "@kubernetes/client-node";
+import { planWorkflow } from "./workflow-plan.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { Step } from "../types/workflow.js";
+import { WorkflowPlan } from "../types/workflow-plan.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+const workflow = (name: string, steps: Step[], crdKind?: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata(name),
+  spec: {
+    ...(crdKind
+      ? { crdRef: { apiGroup: "acme.io", version: "v1", kind: crdKind } }
+      : {}),
+    steps,
+  },
+});
+
+const valueFunction = (name: string, value = "=inputs.value") => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ValueFunction",
+  metadata: metadata(name),
+  spec: { return: { value } },
+});
+
+const resourceFunction = (name: string, namespace?: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ResourceFunction",
+  metadata: metadata(name),
+  spec: {
+    apiConfig: {
+      apiVersion: "v1",
+      kind: "ConfigMap",
+      name: "=inputs.name",
+      ...(namespace ? { namespace } : {}),
+    },
+    resource: { data: { value: "=inputs.value" } },
+  },
+});
+
+const configMap = (name: string, namespace = NAMESPACE) => ({
+  apiVersion: "v1",
+  kind: "ConfigMap",
+  name,
+  namespace,
+  owned: true,
+  readonly: false,
+});
+
+const plan = (
+  objects: KubernetesObject[],
+  spec: unknown = {}
+): Promise<WorkflowPlan> => {
+  const client = createKoreoClient({
+    backend: createInMemoryBackend(objects),
+  });
+  return planWorkflow(NAMESPACE, "app", { spec }, client);
+};
+
+describe("planWorkflow", () => {
+  it("groups steps into batches by their dependencies", async () => {
+    const result = await plan(
+      [
+        workflow("app", [
+          {
+            label: "a",
+            ref: { kind: "ValueFunction", name: "value" },
+            inputs: { value: "=parent.spec.name" },
+          },
+          {
+            label: "b",
+            ref: { kind: "ValueFunction", name: "value" },
+            inputs: { value: "=parent.spec.name + '-b'" },
+          },
+          {
+            label: "c",
+            ref: { kind: "ResourceFunction", name: "map" },
+            inputs: { name: "=steps.a.value", value: "=steps.b.value" },
+          },
+          {
+            label: "d",
+            ref: { kind: "ResourceFunction", name: "map" },
+            inputs: { name: "=steps.c.name", value: "" },
+          },
+        ]),
+        valueFunction("value"),
+        resourceFunction("map"),
+      ],
+      { name: "web" }
+    );
+
+    expect(result.batches).toEqual([["a", "b"], ["c"], ["d"]]);
+    expect(result.errors).toEqual([]);
+    expect(result.steps.map(({ label, status }) => [label, status])).toEqual([
+      ["a", "Run"],
+      ["b", "Run"],
+      ["c", "Run"],
+      ["d", "Unknown"],
+    ]);
+    expect(result.steps[1].value).toEqual({ value: "web-b" });
+    expect(result.steps[2]).toMatchObject({
+      dependsOn: ["a", "b"],
+      inputs: { name: "web", value: "web-b" },
+      resources: [configMap("web")],
+    });
+    expect(result.steps[3].message).toBe(
+      'inputs depends on step "c" whose output is only known at runtime'
+    );
+  });
+
+  it("skips steps whose skipIf holds and their dependents", async () => {
+    const result = await plan(
+      [
+        workflow("app", [
+          {
+            label: "a",
+            ref: { kind: "ValueFunction", name: "value" },
+            skipIf: "=parent.spec.skip",
+            inputs: { value: 1 },
+          },
+          {
+            label: "b",
+            ref: { kind: "ValueFunction", name: "value" },
+            inputs: { value: "=steps.a.value" },
+          },
+        ]),
+        valueFunction("value"),
+      ],
+      { skip: true }
+    );
+
+    expect(result.steps).toMatchObject([
+      {
+        label: "a",
+        status: "Skip",
+        message: "skipIf =parent.spec.skip is true",
+      },
+      { label: "b", status: "DepSkip", message: 'Step "a" is skipped' },
+    ]);
+  });
+
+  it("selects a refSwitch case", async () => {
+    const step: Step = {
+      label: "config",
+      refSwitch: {
+        switchOn: "=parent.spec.mode",
+        cases: [
+          { case: "fixed", kind: "ValueFunction", name: "fixed" },
+          { case: "echo", kind: "ValueFunction", name: "value", default: true },
+        ],
+      },
+      inputs: { value: "echoed" },
+    };
+    const objects = [
+      workflow("app", [step]),
+      valueFunction("fixed", "fixed"),
+      valueFunction("value"),
+    ];
+
+    expect((await plan(objects, { mode: "fixed" })).steps[0]).toMatchObject({
+      status: "Run",
+      ref: { kind: "ValueFunction", name: "fixed" },
+      refSwitch: { value: "fixed", case: "fixed" },
+      value: { value: "fixed" },
+    });
+    expect((await plan(objects, { mode: "other" })).steps[0]).toMatchObject({
+      status: "Run",
+      ref: { kind: "ValueFunction", name: "value" },
+      refSwitch: { value: "other", case: "echo", default: true },
+      value: { value: "echoed" },
+    });
+  });
+
+  it("plans each forEach iteration", async () => {
+    const result = await plan(
+      [
+        workflow("app", [
+          {
+            label: "maps",
+            ref: { kind: "ResourceFunction", name: "map" },
+            forEach: { itemIn: "=parent.spec.names", inputKey: "name" },
+            inputs: { value: "v" },
+          },
+        ]),
+        resourceFunction("map", "other"),
+      ],
+      { names: ["a", "b"] }
+    );
+
+    expect(result.steps[0]).toMatchObject({
+      status: "Run",
+      forEach: {
+        itemIn: "=parent.spec.names",
+        inputKey: "name",
+        iterations: 2,
+      },
+      inputs: { value: "v" },
+      resources: [configMap("a", "other"), configMap("b", "other")],
+    });
+  });
+
+  it("plans the steps of sub-workflows with the step's inputs as parent", async () => {
+    const result = await plan(
+      [
+        workflow("app", [
+          {
+            label: "tiers",
+            ref: { kind: "Workflow", name: "tier" },
+            forEach: { itemIn: "=parent.spec.tiers", inputKey: "tier" },
+          },
+        ]),
+        workflow("tier", [
+          {
+            label: "map",
+            ref: { kind: "ResourceFunction", name: "map" },
+            inputs: { name: "=parent.tier", value: "" },
+          },
+        ]),
+        resourceFunction("map"),
+      ],
+      { tiers: ["web", "db"] }
+    );
+
+    expect(result.steps[0]).toMatchObject({
+      status: "Run",
+      resources: [configMap("web"), configMap("db")],
+      workflows: [
+        { batches: [["map"]], steps: [{ label: "map", status: "Run" }] },
+        { batches: [["map"]], steps: [{ label: "map", status: "Run" }] },
+      ],
+    });
+  });
+
+  it("reports steps whose Function is missing", async () => {
+    const result = await plan([
+      workflow("app", [
+        { label: "missing", ref: { kind: "ValueFunction", name: "missing" } },
+      ]),
+    ]);
+
+    expect(result.steps[0].status).toBe("Error");
+    expect(result.errors).toHaveLength(1);
+  });
+});
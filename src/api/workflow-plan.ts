@@ -0,0 +1,432 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { KoreoError } from "./errors.js";
+import { getWorkflowGraph } from "./graphs.js";
+import { findStepReferences } from "./step-references.js";
+import {
+  evaluateResourceTarget,
+  evaluateValue,
+  evaluateValueFunction,
+} from "./evaluation.js";
+import { KoreoClient } from "../types/client.js";
+import {
+  Graph,
+  GraphBuildOptions,
+  GraphError,
+  KNode,
+  WorkflowNode,
+} from "../types/graph.js";
+import {
+  FunctionEvaluationResult,
+  ResourceTarget,
+} from "../types/evaluation.js";
+import { Step, Workflow } from "../types/workflow.js";
+import {
+  StepPlan,
+  StepPlanStatus,
+  SubWorkflowPlan,
+  WorkflowPlan,
+  WorkflowPlanParent,
+} from "../types/workflow-plan.js";
+
+// Everything a step can read while it's being planned.
+type PlanContext = {
+  namespace: string;
+  parent: Record<string, unknown>;
+  plans: Map<string, StepPlan>;
+  // The values of the steps whose output is known, by label.
+  values: Map<string, unknown>;
+  stepNodes: Map<string, KNode>;
+  errors: GraphError[];
+};
+
+// planWorkflow previews what a Workflow would do for a parent with the given
+// spec without applying anything. Step expressions are evaluated against the
+// parent and the values of earlier ValueFunction steps. Anything that depends
+// on runtime state, such as the output of a ResourceFunction, is reported as
+// Unknown. Throws a KoreoError if the Workflow can't be fetched.
+export const planWorkflow = async (
+  namespace: string,
+  workflowId: string,
+  parent: WorkflowPlanParent,
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: GraphBuildOptions = {}
+): Promise<WorkflowPlan> => {
+  const graph = await getWorkflowGraph(
+    namespace,
+    workflowId,
+    undefined,
+    client,
+    options
+  );
+  const errors = graph.errors ?? [];
+  const workflowNode = graph.nodes.find(
+    (node): node is WorkflowNode =>
+      node.type === "Workflow" && !node.metadata?.label
+  );
+  if (!workflowNode) {
+    const error = errors.find(
+      (error) =>
+        error.kind === "Workflow" &&
+        error.name === workflowId &&
+        !error.stepLabel
+    );
+    throw new KoreoError(
+      error?.reason ?? "NotFound",
+      error && error.reason !== "NotFound"
+        ? error.message
+        : `NotFound: Workflow ${namespace}/${workflowId}: not found`,
+      { resource: { kind: "Workflow", name: workflowId, namespace } }
+    );
+  }
+
+  const crdRef = workflowNode.krm.spec.crdRef;
+  const plan = planSteps(
+    workflowNode.krm,
+    graph,
+    {
+      ...(crdRef
+        ? {
+            apiVersion: `${crdRef.apiGroup}/${crdRef.version}`,
+            kind: crdRef.kind,
+          }
+        : {}),
+      metadata: { namespace, ...parent.metadata },
+      spec: parent.spec,
+    },
+    namespace,
+    errors
+  );
+  return { namespace, workflowId, ...plan, errors };
+};
+
+// planSteps plans the steps of a Workflow whose graph has been built.
+const planSteps = (
+  workflow: Workflow,
+  graph: Graph,
+  parent: Record<string, unknown>,
+  namespace: string,
+  errors: GraphError[]
+): SubWorkflowPlan => {
+  const context: PlanContext = {
+    namespace,
+    parent,
+    plans: new Map(),
+    values: new Map(),
+    stepNodes: new Map(
+      graph.nodes.flatMap((node) => {
+        const label = stepLabel(node);
+        return label === undefined ? [] : [[label, node]];
+      })
+    ),
+    errors,
+  };
+
+  // Steps may only depend on earlier steps, so planning them in order means
+  // their dependencies are always planned first.
+  const steps = workflow.spec.steps ?? [];
+  steps.forEach((step) => {
+    context.plans.set(step.label, planStep(context, step));
+  });
+
+  const batches: string[][] = [];
+  context.plans.forEach((plan) => {
+    (batches[plan.batch] ??= []).push(plan.label);
+  });
+  return { batches, steps: [...context.plans.values()] };
+};
+
+// A SubWorkflow node carries its step label on the Workflow node of its graph.
+const stepLabel = (node: KNode): string | undefined => {
+  const metadata =
+    node.type === "SubWorkflow"
+      ? node.workflowGraph.nodes[0]?.metadata
+      : node.metadata;
+  return typeof metadata?.label === "string" ? metadata.label : undefined;
+};
+
+// PlanInterrupted stops planning a step once its status is settled or can't
+// be determined.
+class PlanInterrupted extends Error {
+  readonly status: StepPlanStatus;
+
+  constructor(status: StepPlanStatus, message: string) {
+    super(message);
+    this.name = "PlanInterrupted";
+    this.status = status;
+  }
+}
+
+const planStep = (context: PlanContext, step: Step): StepPlan => {
+  const label = step.label;
+  const references = [
+    ...findStepReferences(step.inputs, "inputs"),
+    ...findStepReferences(step.forEach?.itemIn, "forEach.itemIn"),
+    ...findStepReferences(step.refSwitch?.switchOn, "refSwitch.switchOn"),
+    ...findStepReferences(step.skipIf, "skipIf"),
+  ].map((reference) => reference.label);
+  const dependsOn = [...new Set(references)].filter((dependency) =>
+    context.plans.has(dependency)
+  );
+  const plan: StepPlan = {
+    label,
+    batch:
+      Math.max(
+        -1,
+        ...dependsOn.map((dependency) => context.plans.get(dependency)!.batch)
+      ) + 1,
+    dependsOn,
+    status: "Run",
+    resources: [],
+  };
+  if (step.ref) {
+    plan.ref = { kind: step.ref.kind, name: step.ref.name };
+  }
+  if (step.refSwitch) {
+    plan.refSwitch = { switchOn: step.refSwitch.switchOn };
+  }
+  if (step.forEach) {
+    plan.forEach = {
+      itemIn: step.forEach.itemIn,
+      inputKey: step.forEach.inputKey,
+    };
+  }
+
+  try {
+    executeStep(context, step, plan, references);
+  } catch (err) {
+    if (!(err instanceof PlanInterrupted)) {
+      throw err;
+    }
+    plan.status = err.status;
+    plan.message = err.message;
+  }
+  return plan;
+};
+
+const executeStep = (
+  context: PlanContext,
+  step: Step,
+  plan: StepPlan,
+  references: string[]
+) => {
+  const label = step.label;
+  const undefinedReference = references.find(
+    (reference) => !context.plans.has(reference)
+  );
+  if (undefinedReference) {
+    throw new PlanInterrupted(
+      "Error",
+      `Step "${label}" references step "${undefinedReference}" which does not come before it`
+    );
+  }
+  if (!step.ref && !step.refSwitch) {
+    throw new PlanInterrupted(
+      "Error",
+      `Step "${label}" has neither a ref nor a refSwitch`
+    );
+  }
+  const skipped = plan.dependsOn.find((dependency) =>
+    ["Skip", "DepSkip"].includes(context.plans.get(dependency)!.status)
+  );
+  if (skipped) {
+    throw new PlanInterrupted("DepSkip", `Step "${skipped}" is skipped`);
+  }
+
+  if (step.skipIf) {
+    const skip = resolve(context, step.skipIf, "skipIf");
+    if (typeof skip !== "boolean") {
+      throw new PlanInterrupted("Error", "skipIf must evaluate to a bool");
+    }
+    if (skip) {
+      throw new PlanInterrupted("Skip", `skipIf ${step.skipIf} is true`);
+    }
+  }
+
+  if (step.refSwitch) {
+    const value = resolve(context, step.refSwitch.switchOn, "switchOn");
+    const cases = step.refSwitch.cases ?? [];
+    const matched = cases.find((switchCase) => switchCase.case === `${value}`);
+    const selected = matched ?? cases.find((switchCase) => switchCase.default);
+    plan.refSwitch = { ...plan.refSwitch!, value };
+    if (!selected) {
+      throw new PlanInterrupted(
+        "Error",
+        `No refSwitch case matches "${value}" and there is no default case`
+      );
+    }
+    plan.refSwitch.case = selected.case;
+    if (!matched) {
+      plan.refSwitch.default = true;
+    }
+    plan.ref = { kind: selected.kind, name: selected.name };
+  }
+
+  let items: unknown[] | undefined;
+  if (step.forEach) {
+    const itemIn = resolve(context, step.forEach.itemIn, "forEach.itemIn");
+    if (!Array.isArray(itemIn)) {
+      throw new PlanInterrupted(
+        "Error",
+        "forEach.itemIn must evaluate to a list"
+      );
+    }
+    items = itemIn;
+    plan.forEach!.iterations = items.length;
+  }
+
+  const ref = plan.ref!;
+  const error = context.errors.find(
+    (error) =>
+      error.stepLabel === label &&
+      error.kind === ref.kind &&
+      error.name === ref.name
+  );
+  if (error) {
+    throw new PlanInterrupted("Error", error.message);
+  }
+
+  const inputs = resolve(context, step.inputs ?? {}, "inputs") as Record<
+    string,
+    unknown
+  >;
+  plan.inputs = inputs;
+  const iterations = items
+    ? items.map((item) => ({ ...inputs, [step.forEach!.inputKey]: item }))
+    : [inputs];
+
+  const node = findLogicNode(context, label, plan.refSwitch?.case);
+  if (ref.kind === "Workflow") {
+    if (node?.type !== "SubWorkflow") {
+      throw new PlanInterrupted(
+        "Error",
+        `Workflow ${context.namespace}/${ref.name} not found`
+      );
+    }
+    // A sub-workflow sees the step's inputs as its parent.
+    plan.workflows = iterations.map((iteration) =>
+      planSteps(
+        (node.workflowGraph.nodes[0] as WorkflowNode).krm,
+        node.workflowGraph,
+        iteration,
+        context.namespace,
+        context.errors
+      )
+    );
+    plan.resources = plan.workflows.flatMap((workflow) =>
+      workflow.steps.flatMap((stepPlan) => stepPlan.resources)
+    );
+    return;
+  }
+  const func =
+    node?.type === "ValueFunction" || node?.type === "ResourceFunction"
+      ? node.krm
+      : undefined;
+  if (!func || func.kind !== ref.kind) {
+    throw new PlanInterrupted(
+      "Error",
+      `${ref.kind} ${context.namespace}/${ref.name} not found`
+    );
+  }
+  if (func.kind === "ValueFunction") {
+    const results = collectResults(
+      iterations.map((iteration) => evaluateValueFunction(func, iteration)),
+      (value) => value
+    );
+    plan.value = items ? results : results[0];
+    context.values.set(label, plan.value);
+  } else {
+    // A defaultReturn means the function returns without managing its
+    // resource.
+    plan.resources = collectResults(
+      iterations.map((iteration) => evaluateResourceTarget(func, iteration)),
+      () => null
+    )
+      .filter((target): target is ResourceTarget => target !== null)
+      .map((target) =>
+        // Namespaced resources default to the Workflow's namespace.
+        target.namespace === undefined &&
+        func.spec.apiConfig.namespaced !== false
+          ? { ...target, namespace: context.namespace }
+          : target
+      );
+  }
+};
+
+// resolve evaluates a step field against the parent and known step values.
+const resolve = (
+  context: PlanContext,
+  value: unknown,
+  field: string
+): unknown => {
+  const unknown = findStepReferences(value, "").find(
+    (reference) => !context.values.has(reference.label)
+  );
+  if (unknown) {
+    throw new PlanInterrupted(
+      "Unknown",
+      `${field} depends on step "${unknown.label}" whose output is only known at runtime`
+    );
+  }
+  try {
+    return evaluateValue(value, {
+      parent: context.parent,
+      steps: Object.fromEntries(context.values),
+    });
+  } catch (err) {
+    throw new PlanInterrupted(
+      "Error",
+      `Invalid ${field}: ${err instanceof Error ? err.message : err}`
+    );
+  }
+};
+
+// findLogicNode returns the node of the Function or sub-workflow a step
+// calls, after resolving any refSwitch.
+const findLogicNode = (
+  context: PlanContext,
+  label: string,
+  switchCase?: string
+): KNode | undefined => {
+  const node = context.stepNodes.get(label);
+  if (node?.type === "RefSwitch") {
+    return switchCase === undefined ? undefined : node.caseNodes[switchCase];
+  }
+  return node;
+};
+
+// collectResults unwraps the result of each iteration. The first iteration
+// that doesn't succeed decides the status of the whole step. defaultReturn
+// outcomes are mapped with defaultReturn.
+const collectResults = <T, D>(
+  results: FunctionEvaluationResult<T>[],
+  defaultReturn: (value: unknown) => D
+): (T | D)[] => {
+  return results.map((result) => {
+    if (result.type === "Ok") {
+      return result.value;
+    }
+    if (result.type === "EvaluationError") {
+      throw new PlanInterrupted(
+        "Error",
+        `Invalid ${result.path}: ${result.message}`
+      );
+    }
+    if (result.outcome === "defaultReturn") {
+      return defaultReturn(result.value);
+    }
+    throw new PlanInterrupted(
+      OUTCOME_STATUSES[result.outcome],
+      result.message ?? `Precondition ${result.index} failed`
+    );
+  });
+};
+
+const OUTCOME_STATUSES: Record<
+  "skip" | "depSkip" | "retry" | "permFail",
+  StepPlanStatus
+> = {
+  skip: "Skip",
+  depSkip: "DepSkip",
+  retry: "Retry",
+  permFail: "PermFail",
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { KubernetesObject } from "@kubernetes/client-node";
+import { validateWorkflowObject } from "./workflow-validation.js";
+import { createKoreoClient } from "./kubernetes.js";
+import { createInMemoryBackend } from "./in-memory-backend.js";
+import { KoreoBackend } from "../types/client.js";
+import { Step, Workflow } from "../types/workflow.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({ name, namespace: NAMESPACE });
+
+const workflow = (steps: Step[]): Workflow => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata("app"),
+  spec: { steps },
+  status: {},
+});
+
+const valueFunction = (name: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ValueFunction",
+  metadata: metadata(name),
+  spec: { return: { value: "=inputs.value" } },
+});
+
+// Missing the required apiConfig.name.
+const malformedResourceFunction = {
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ResourceFunction",
+  metadata: metadata("broken"),
+  spec: { apiConfig: { apiVersion: "v1", kind: "ConfigMap" } },
+};
+
+const validate = (
+  steps: Step[],
+  objects: KubernetesObject[],
+  wrap: (backend: KoreoBackend) => KoreoBackend = (backend) => backend
+) => {
+  const client = createKoreoClient({
+    backend: wrap(createInMemoryBackend(objects)),
+  });
+  return validateWorkflowObject(workflow(steps), client);
+};
+
+describe("validateWorkflowObject", () => {
+  it("reports a ref to a missing Function", async () => {
+    const report = await validate(
+      [{ label: "config", ref: { kind: "ValueFunction", name: "missing" } }],
+      []
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      {
+        code: "MissingReference",
+        severity: "error",
+        message:
+          'Step "config" references ValueFunction test/missing which does not exist',
+        stepLabel: "config",
+        path: "spec.steps[0].ref",
+      },
+    ]);
+  });
+
+  it("reports a malformed Function alongside other issues", async () => {
+    const report = await validate(
+      [
+        { label: "config", ref: { kind: "ValueFunction", name: "config" } },
+        {
+          label: "map",
+          refSwitch: {
+            switchOn: "=steps.config.value",
+            cases: [
+              { case: "a", kind: "ResourceFunction", name: "broken" },
+              { case: "b", kind: "ValueFunction", name: "missing" },
+            ],
+          },
+        },
+      ],
+      [valueFunction("config"), malformedResourceFunction]
+    );
+
+    expect(report.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "MissingDefaultCase", path: "spec.steps[1].refSwitch.cases" },
+      { code: "InvalidReference", path: "spec.steps[1].refSwitch.cases[0]" },
+      { code: "MissingReference", path: "spec.steps[1].refSwitch.cases[1]" },
+    ]);
+    expect(report.issues[1].message).toMatch(
+      /^Step "map" references ResourceFunction test\/broken which could not be used: .*apiConfig\.name/
+    );
+  });
+
+  it("reports a Function that can't be read", async () => {
+    const report = await validate(
+      [
+        { label: "config", ref: { kind: "ValueFunction", name: "config" } },
+        { label: "secret", ref: { kind: "ValueFunction", name: "secret" } },
+      ],
+      [valueFunction("config"), valueFunction("secret")],
+      (backend) => ({
+        ...backend,
+        getCustomObject: async (request) => {
+          if (request.name === "secret") {
+            throw { code: 403 };
+          }
+          return backend.getCustomObject(request);
+        },
+      })
+    );
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({
+      code: "InvalidReference",
+      stepLabel: "secret",
+      path: "spec.steps[1].ref",
+    });
+    expect(report.issues[0].message).toContain("Forbidden");
+  });
+});
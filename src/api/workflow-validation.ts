@@ -0,0 +1,227 @@
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { KoreoError, ExpressionSyntaxError, toKoreoError } from "./errors.js";
+import { getWorkflow } from "./workflows.js";
+import { getFunction } from "./functions.js";
+import { createFetchContext, FetchContext } from "./fetch-context.js";
+import { findExpressions, getStepLabels } from "./step-references.js";
+import { KoreoClient } from "../types/client.js";
+import { Step, Workflow } from "../types/workflow.js";
+import {
+  WorkflowIssue,
+  WorkflowValidationReport,
+} from "../types/workflow-validation.js";
+
+// validateWorkflow fetches a Workflow and lints it. Throws a KoreoError with
+// reason NotFound if the Workflow doesn't exist.
+export const validateWorkflow = async (
+  namespace: string,
+  workflowId: string,
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<WorkflowValidationReport> => {
+  const workflow = await getWorkflow(workflowId, namespace, client);
+  if (!workflow) {
+    throw new KoreoError(
+      "NotFound",
+      `NotFound: Workflow ${namespace}/${workflowId}: not found`,
+      { resource: { kind: "Workflow", name: workflowId, namespace } }
+    );
+  }
+  return validateWorkflowObject(workflow, client);
+};
+
+// validateWorkflowObject lints a Workflow that may not have been applied yet,
+// e.g. one read from a manifest. Referenced Functions and Workflows are looked
+// up in the Workflow's namespace using the client.
+export const validateWorkflowObject = async (
+  workflow: Workflow,
+  client: KoreoClient = getDefaultKoreoClient()
+): Promise<WorkflowValidationReport> => {
+  const namespace = workflow.metadata?.namespace ?? "";
+  const steps = workflow.spec?.steps ?? [];
+  const fetches = createFetchContext();
+  const issues: WorkflowIssue[] = [];
+
+  // Map each label to the index of its first step.
+  const labelIndexes = new Map<string, number>();
+  steps.forEach((step, i) => {
+    if (labelIndexes.has(step.label)) {
+      issues.push({
+        code: "DuplicateLabel",
+        severity: "error",
+        message: `Step label "${
+          step.label
+        }" is already used by step ${labelIndexes.get(step.label)}`,
+        stepLabel: step.label,
+        path: `spec.steps[${i}].label`,
+      });
+    } else {
+      labelIndexes.set(step.label, i);
+    }
+  });
+
+  const stepIssues = await Promise.all(
+    steps.map((step, i) =>
+      validateStep(step, `spec.steps[${i}]`, i, labelIndexes, namespace, {
+        client,
+        fetches,
+      })
+    )
+  );
+  issues.push(...stepIssues.flat());
+
+  return {
+    namespace,
+    workflowId: workflow.metadata?.name ?? "",
+    valid: !issues.some((issue) => issue.severity === "error"),
+    issues,
+  };
+};
+
+const validateStep = async (
+  step: Step,
+  path: string,
+  index: number,
+  labelIndexes: Map<string, number>,
+  namespace: string,
+  lookup: { client: KoreoClient; fetches: FetchContext }
+): Promise<WorkflowIssue[]> => {
+  const issues: WorkflowIssue[] = [];
+  const stepLabel = step.label;
+
+  if (!step.ref && !step.refSwitch) {
+    issues.push({
+      code: "InvalidStep",
+      severity: "error",
+      message: `Step "${stepLabel}" has neither a ref nor a refSwitch`,
+      stepLabel,
+      path,
+    });
+  }
+
+  if (step.refSwitch && !step.refSwitch.cases?.some((c) => c.default)) {
+    issues.push({
+      code: "MissingDefaultCase",
+      severity: "warning",
+      message: `refSwitch of step "${stepLabel}" has no default case`,
+      stepLabel,
+      path: `${path}.refSwitch.cases`,
+    });
+  }
+
+  if (step.forEach && step.inputs && step.forEach.inputKey in step.inputs) {
+    issues.push({
+      code: "InputKeyCollision",
+      severity: "error",
+      message: `forEach inputKey "${step.forEach.inputKey}" of step "${stepLabel}" collides with an input`,
+      stepLabel,
+      path: `${path}.forEach.inputKey`,
+    });
+  }
+
+  const expressions = [
+    ...findExpressions(step.inputs, "inputs"),
+    ...findExpressions(step.forEach?.itemIn, "forEach.itemIn"),
+    ...findExpressions(step.refSwitch?.switchOn, "refSwitch.switchOn"),
+    ...findExpressions(step.skipIf, "skipIf"),
+  ];
+  const references = expressions.flatMap(({ expression, path: fieldPath }) => {
+    try {
+      return getStepLabels(expression).map((label) => ({
+        label,
+        path: fieldPath,
+      }));
+    } catch (err) {
+      if (!(err instanceof ExpressionSyntaxError)) {
+        throw err;
+      }
+      issues.push({
+        code: "InvalidExpression",
+        severity: "error",
+        message: `Step "${stepLabel}" has an invalid expression: ${err.message}`,
+        stepLabel,
+        path: `${path}.${fieldPath}`,
+      });
+      return [];
+    }
+  });
+  references.forEach((reference) => {
+    const referencedIndex = labelIndexes.get(reference.label);
+    if (referencedIndex === undefined) {
+      issues.push({
+        code: "UndefinedStepReference",
+        severity: "error",
+        message: `Step "${stepLabel}" references undefined step "${reference.label}"`,
+        stepLabel,
+        path: `${path}.${reference.path}`,
+      });
+    } else if (referencedIndex >= index) {
+      issues.push({
+        code: "ForwardStepReference",
+        severity: "error",
+        message: `Step "${stepLabel}" references step "${reference.label}" which does not come before it`,
+        stepLabel,
+        path: `${path}.${reference.path}`,
+      });
+    }
+  });
+
+  const refs = [
+    ...(step.ref ? [{ ...step.ref, path: `${path}.ref` }] : []),
+    ...(step.refSwitch?.cases ?? []).map((switchCase, i) => ({
+      kind: switchCase.kind,
+      name: switchCase.name,
+      path: `${path}.refSwitch.cases[${i}]`,
+    })),
+  ];
+  // A ref that can't be fetched, e.g. because it's malformed or forbidden, is
+  // reported rather than failing the whole report.
+  const lookups = await Promise.all(
+    refs.map(async (ref) => ({
+      ref,
+      result: await lookup.fetches.fetch(
+        `${ref.kind}/${namespace}/${ref.name}`,
+        async (): Promise<boolean | KoreoError> => {
+          try {
+            return (
+              (ref.kind === "Workflow"
+                ? await getWorkflow(ref.name, namespace, lookup.client)
+                : await getFunction(
+                    ref.name,
+                    ref.kind,
+                    namespace,
+                    lookup.client
+                  )) !== null
+            );
+          } catch (err) {
+            return toKoreoError(err, {
+              kind: ref.kind,
+              name: ref.name,
+              namespace,
+            });
+          }
+        }
+      ),
+    }))
+  );
+  lookups.forEach(({ ref, result }) => {
+    if (result === false) {
+      issues.push({
+        code: "MissingReference",
+        severity: "error",
+        message: `Step "${stepLabel}" references ${ref.kind} ${namespace}/${ref.name} which does not exist`,
+        stepLabel,
+        path: ref.path,
+      });
+    } else if (result !== true) {
+      issues.push({
+        code: "InvalidReference",
+        severity: "error",
+        message: `Step "${stepLabel}" references ${ref.kind} ${namespace}/${ref.name} which could not be used: ${result.message}`,
+        stepLabel,
+        path: ref.path,
+      });
+    }
+  });
+
+  return issues;
+};
@@ -1,149 +1,143 @@
-import { getK8sCRDApi } from "./kubernetes";
-import { Workflow, CRDRef, WorkflowParent } from "../types/workflow";
-
-const GROUP = "koreo.dev";
-const VERSION = "v1beta1";
-const PLURAL = "workflows";
+import { getDefaultKoreoClient } from "./kubernetes.js";
+import { toKoreoError } from "./errors.js";
+import { assertSchema, validateWorkflowSchema } from "./schemas.js";
+import { resolveCRDRef } from "./discovery.js";
+import {
+  KOREO_GROUP,
+  KOREO_VERSION,
+  KOREO_PLURALS,
+} from "./koreo-resources.js";
+import { listKoreoObjects, iterateKoreoObjects } from "./listing.js";
+import { Workflow, CRDRef, WorkflowParent } from "../types/workflow.js";
+import { KoreoClient } from "../types/client.js";
+import { ListOptions } from "../types/listing.js";
 
 export const listWorkflows = async (
-  namespaces: string | string[]
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
 ): Promise<Workflow[]> => {
-  const api = getK8sCRDApi();
-  const namespaceArray = Array.isArray(namespaces) ? namespaces : [namespaces];
-
-  try {
-    const workflowPromises = namespaceArray.map((namespace) =>
-      api.listNamespacedCustomObject({
-        group: GROUP,
-        version: VERSION,
-        namespace,
-        plural: PLURAL,
-      })
-    );
-
-    const results = await Promise.all(workflowPromises);
+  return listKoreoObjects("Workflow", namespaces, client, options);
+};
 
-    return results.flatMap((result) => result.items);
-  } catch (err) {
-    console.error(`Failed to get workflows for namespaces ${namespaceArray}`);
-    return [];
-  }
+export const iterateWorkflows = (
+  namespaces: string | string[],
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
+): AsyncGenerator<Workflow> => {
+  return iterateKoreoObjects("Workflow", namespaces, client, options);
 };
 
 export const getWorkflowsForCrdRef = async (
   namespaces: string | string[],
-  crdRef: CRDRef
+  crdRef: CRDRef,
+  client: KoreoClient = getDefaultKoreoClient(),
+  options: ListOptions = {}
 ): Promise<Workflow[]> => {
-  const api = getK8sCRDApi();
-  const namespaceArray = Array.isArray(namespaces) ? namespaces : [namespaces];
-
-  try {
-    const workflowPromises = namespaceArray.map((namespace) =>
-      api.listNamespacedCustomObject({
-        group: GROUP,
-        version: VERSION,
-        namespace,
-        plural: PLURAL,
-      })
-    );
-
-    const results = await Promise.all(workflowPromises);
-    const workflows = results.flatMap((result) => result.items);
-
-    return workflows.filter(
-      (workflow) =>
-        workflow.spec.crdRef?.apiGroup === crdRef.apiGroup &&
-        workflow.spec.crdRef?.kind === crdRef.kind &&
-        workflow.spec.crdRef?.version === crdRef.version
-    );
-  } catch (err) {
-    console.error(`Failed to get workflows for namespaces ${namespaceArray}`);
-    return [];
-  }
+  const workflows = await listWorkflows(namespaces, client, options);
+
+  return workflows.filter(
+    (workflow) =>
+      workflow.spec.crdRef?.apiGroup === crdRef.apiGroup &&
+      workflow.spec.crdRef?.kind === crdRef.kind &&
+      workflow.spec.crdRef?.version === crdRef.version
+  );
 };
 
+// Returns null if the Workflow does not exist. Any other failure is thrown as
+// a KoreoError.
 export const getWorkflow = async (
   workflowId: string,
-  namespace: string
+  namespace: string,
+  client: KoreoClient = getDefaultKoreoClient()
 ): Promise<Workflow | null> => {
-  const api = getK8sCRDApi();
+  const resource = { kind: "Workflow", name: workflowId, namespace };
+  const cached = client.cache?.get("Workflow", namespace, workflowId);
+  if (cached !== undefined) {
+    return (
+      cached && assertSchema<Workflow>(cached, validateWorkflowSchema, resource)
+    );
+  }
+
+  const api = client.backend;
   try {
-    return api.getNamespacedCustomObject({
-      group: GROUP,
-      version: VERSION,
-      namespace,
-      plural: PLURAL,
-      name: workflowId,
-    });
-  } catch (err) {
-    console.error(
-      `Failed to get workflow ${workflowId} in namespace ${namespace}`
+    return assertSchema<Workflow>(
+      await api.getCustomObject({
+        group: KOREO_GROUP,
+        version: KOREO_VERSION,
+        namespace,
+        plural: KOREO_PLURALS.Workflow,
+        name: workflowId,
+      }),
+      validateWorkflowSchema,
+      resource
     );
-    return null;
+  } catch (err) {
+    const error = toKoreoError(err, resource);
+    if (error.reason === "NotFound") {
+      return null;
+    }
+    throw error;
   }
 };
 
 export const getWorkflowInstances = async (
-  workflow: Workflow
+  workflow: Workflow,
+  client: KoreoClient = getDefaultKoreoClient()
 ): Promise<WorkflowParent[]> => {
   if (!workflow.spec.crdRef || !workflow.metadata?.namespace) {
     return [];
   }
   const crdRef = workflow.spec.crdRef;
+  const { plural, namespaced } = await resolveCRDRef(crdRef, client);
+  const namespace = namespaced ? workflow.metadata.namespace : undefined;
 
-  // TODO: Change this to first list all custom resources, then match against
-  // the kind + apiGroup, then lookup the plural.
-  let plural = crdRef.kind.toLowerCase();
-  if (plural.endsWith("y")) {
-    plural = plural.substring(0, plural.length - 1) + "ies";
-  } else {
-    plural += "s";
-  }
-
-  const api = getK8sCRDApi();
+  const api = client.backend;
 
   try {
-    const crds = await api.listNamespacedCustomObject({
+    const crds = await api.listCustomObjects<WorkflowParent>({
       group: crdRef.apiGroup,
       version: crdRef.version,
-      namespace: workflow.metadata.namespace,
+      namespace,
       plural,
     });
     return crds.items;
   } catch (err) {
-    return [];
+    throw toKoreoError(err, { kind: crdRef.kind, namespace });
   }
 };
 
 export const getWorkflowInstance = async (
   workflow: Workflow,
-  instanceId: string
+  instanceId: string,
+  client: KoreoClient = getDefaultKoreoClient()
 ): Promise<WorkflowParent | null> => {
   if (!workflow.spec.crdRef || !workflow.metadata?.namespace) {
     return null;
   }
   const crdRef = workflow.spec.crdRef;
+  const { plural, namespaced } = await resolveCRDRef(crdRef, client);
+  const namespace = namespaced ? workflow.metadata.namespace : undefined;
 
-  // TODO: Change this to first list all custom resources, then match against
-  // the kind + apiGroup, then lookup the plural.
-  let plural = crdRef.kind.toLowerCase();
-  if (plural.endsWith("y")) {
-    plural = plural.substring(0, plural.length - 1) + "ies";
-  } else {
-    plural += "s";
-  }
-
-  const api = getK8sCRDApi();
+  const api = client.backend;
 
   try {
-    return api.getNamespacedCustomObject({
+    return await api.getCustomObject<WorkflowParent>({
       group: crdRef.apiGroup,
       version: crdRef.version,
-      namespace: workflow.metadata.namespace,
+      namespace,
       plural,
       name: instanceId,
     });
   } catch (err) {
-    return null;
+    const error = toKoreoError(err, {
+      kind: crdRef.kind,
+      name: instanceId,
+      namespace,
+    });
+    if (error.reason === "NotFound") {
+      return null;
+    }
+    throw error;
   }
 };
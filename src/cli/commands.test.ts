@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { KubernetesObject } from "@kubernetes/client-node";
+import { COMMANDS, CommandContext, IncompleteError } from "./commands.js";
+import { createKoreoClient } from "../api/kubernetes.js";
+import { createInMemoryBackend } from "../api/in-memory-backend.js";
+import { Step } from "../types/workflow.js";
+
+const NAMESPACE = "test";
+
+const metadata = (name: string) => ({
+  name,
+  namespace: NAMESPACE,
+  uid: `uid-${name}`,
+});
+
+const workflow = (name: string, steps: Step[], crdKind?: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "Workflow",
+  metadata: metadata(name),
+  spec: {
+    ...(crdKind
+      ? { crdRef: { apiGroup: "acme.io", version: "v1", kind: crdKind } }
+      : {}),
+    steps,
+  },
+});
+
+const valueFunction = (name: string) => ({
+  apiVersion: "koreo.dev/v1beta1",
+  kind: "ValueFunction",
+  metadata: metadata(name),
+  spec: { return: { value: "=inputs.value" } },
+});
+
+// run runs a command against the objects and collects its warnings.
+const run = async (
+  objects: KubernetesObject[],
+  command: string,
+  args: string[],
+  flags: CommandContext["flags"] = {}
+) => {
+  const warnings: string[] = [];
+  const context: CommandContext = {
+    client: createKoreoClient({ backend: createInMemoryBackend(objects) }),
+    namespace: NAMESPACE,
+    allNamespaces: false,
+    output: "table",
+    color: false,
+    width: 80,
+    warn: (message) => warnings.push(message),
+    flags,
+  };
+  try {
+    return { output: await COMMANDS[command](args, context), warnings };
+  } catch (error) {
+    return { error, warnings };
+  }
+};
+
+describe("graph", () => {
+  it("renders a Workflow's graph", async () => {
+    const result = await run(
+      [
+        workflow("app", [
+          { label: "config", ref: { kind: "ValueFunction", name: "config" } },
+        ]),
+        valueFunction("config"),
+      ],
+      "graph",
+      ["app"],
+      { format: "tree" }
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.warnings).toEqual([]);
+    expect(result.output).toContain("app");
+    expect(result.output).toContain("config");
+  });
+
+  it("fails when the Workflow doesn't exist", async () => {
+    const result = await run([], "graph", ["app"]);
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect((result.error as Error).message).toBe("Workflow test/app not found");
+  });
+
+  it("fails when the instance's CRD isn't served", async () => {
+    const result = await run([workflow("app", [], "App")], "graph", ["app"], {
+      instance: "my-app",
+    });
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect((result.error as Error).message).toBe(
+      "NotFound: App: acme.io/v1 does not serve App"
+    );
+    expect(result.error).not.toBeInstanceOf(IncompleteError);
+  });
+
+  it("reports graph errors and fails with the output", async () => {
+    const result = await run(
+      [
+        workflow("app", [
+          { label: "config", ref: { kind: "ValueFunction", name: "config" } },
+          { label: "missing", ref: { kind: "ValueFunction", name: "missing" } },
+        ]),
+        valueFunction("config"),
+      ],
+      "graph",
+      ["app"],
+      { format: "tree" }
+    );
+
+    expect(result.warnings).toEqual(["ValueFunction test/missing not found"]);
+    expect(result.error).toBeInstanceOf(IncompleteError);
+    const error = result.error as IncompleteError;
+    expect(error.message).toBe("The graph of Workflow test/app is incomplete");
+    expect(error.output).toContain("config");
+  });
+});
@@ -0,0 +1,484 @@
+import { ALL_NAMESPACES } from "../api/listing.js";
+import {
+  listWorkflows,
+  getWorkflow,
+  getWorkflowInstance,
+  getWorkflowInstances,
+} from "../api/workflows.js";
+import { listFunctions } from "../api/functions.js";
+import { listResourceTemplates } from "../api/resource-templates.js";
+import { getWorkflowGraph } from "../api/graphs.js";
+import {
+  getInflatedWorkflowGraph,
+  getInflatedWorkflowInstanceGraph,
+} from "../api/inflated-graphs.js";
+import {
+  collectManagedResources,
+  countManagedResources,
+  getManagedResourcesError,
+  parseManagedResources,
+} from "../api/managed-resources.js";
+import { getGraphHealth, getResourceHealth } from "../api/health.js";
+import {
+  graphToCytoscape,
+  graphToDot,
+  graphToGraphML,
+  graphToMermaid,
+} from "../api/graph-export.js";
+import { renderGraph } from "../api/graph-render.js";
+import { KoreoClient } from "../types/client.js";
+import {
+  GraphError,
+  InflatedGraph,
+  KNode,
+  StepCondition,
+} from "../types/graph.js";
+import { Health } from "../types/health.js";
+import { ListOptions } from "../types/listing.js";
+import { Workflow, WorkflowParent } from "../types/workflow.js";
+import { formatFields, formatJson, formatTable } from "./output.js";
+
+// Everything a command needs besides its own arguments, resolved from the
+// global flags.
+export type CommandContext = {
+  client: KoreoClient;
+  namespace: string;
+  allNamespaces: boolean;
+  output: "table" | "json";
+  color: boolean;
+  width: number;
+  // Reports a problem that doesn't stop the command, e.g. an invalid object
+  // left out of a list.
+  warn: (message: string) => void;
+  flags: {
+    instance?: string;
+    workflow?: string;
+    expanded?: boolean;
+    format?: string;
+  };
+};
+
+export type Command = (
+  args: string[],
+  context: CommandContext
+) => Promise<string>;
+
+// UsageError is thrown for invalid arguments, which the CLI reports along
+// with its usage.
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// IncompleteError is thrown by a command that has output to show but couldn't
+// do all it was asked, e.g. a graph with a step whose Function is missing. The
+// CLI prints the output and fails.
+export class IncompleteError extends Error {
+  readonly output: string;
+
+  constructor(message: string, output: string) {
+    super(message);
+    this.name = "IncompleteError";
+    this.output = output;
+  }
+}
+
+const GRAPH_FORMATS = [
+  "layers",
+  "tree",
+  "dot",
+  "mermaid",
+  "cytoscape",
+  "graphml",
+  "json",
+];
+
+const list: Command = async ([type, ...rest], context) => {
+  const namespaces = context.allNamespaces ? ALL_NAMESPACES : context.namespace;
+  switch (type) {
+    case "workflows": {
+      const workflows = await listWorkflows(
+        namespaces,
+        context.client,
+        listOptions(context)
+      );
+      return output(context, workflows, () =>
+        formatTable(
+          ["namespace", "name", "crd", "steps"],
+          workflows.map((workflow) => [
+            workflow.metadata?.namespace ?? "",
+            workflow.metadata?.name ?? "",
+            workflow.spec.crdRef
+              ? `${workflow.spec.crdRef.kind}.${workflow.spec.crdRef.apiGroup}`
+              : "",
+            `${workflow.spec.steps?.length ?? 0}`,
+          ])
+        )
+      );
+    }
+    case "functions": {
+      const functions = await listFunctions(
+        namespaces,
+        context.client,
+        listOptions(context)
+      );
+      return output(context, functions, () =>
+        formatTable(
+          ["namespace", "name", "kind"],
+          functions.map((func) => [
+            func.metadata?.namespace ?? "",
+            func.metadata?.name ?? "",
+            func.kind,
+          ])
+        )
+      );
+    }
+    case "templates": {
+      const templates = await listResourceTemplates(
+        namespaces,
+        context.client,
+        listOptions(context)
+      );
+      return output(context, templates, () =>
+        formatTable(
+          ["namespace", "name", "template"],
+          templates.map((template) => [
+            template.metadata?.namespace ?? "",
+            template.metadata?.name ?? "",
+            [template.spec.template?.apiVersion, template.spec.template?.kind]
+              .filter(Boolean)
+              .join(" "),
+          ])
+        )
+      );
+    }
+    case "instances": {
+      const [workflowId] = rest;
+      const workflows = (
+        await listWorkflows(namespaces, context.client, listOptions(context))
+      ).filter(
+        (workflow) => !workflowId || workflow.metadata?.name === workflowId
+      );
+      const instances = (
+        await Promise.all(
+          workflows.map(async (workflow) =>
+            (
+              await getWorkflowInstances(workflow, context.client)
+            ).map((instance) => ({ workflow, instance }))
+          )
+        )
+      ).flat();
+      instances.forEach(({ instance }) => warnInvalid(context, instance));
+      return output(context, instances, () =>
+        formatTable(
+          ["namespace", "name", "kind", "workflow", "health", "resources"],
+          instances.map(({ workflow, instance }) => [
+            instance.metadata?.namespace ?? "",
+            instance.metadata?.name ?? "",
+            instance.kind ?? "",
+            workflow.metadata?.name ?? "",
+            getResourceHealth(instance).status,
+            `${countManagedResources(parseManagedResources(instance))}`,
+          ])
+        )
+      );
+    }
+    default:
+      throw new UsageError(
+        "list expects one of workflows, functions, templates or instances"
+      );
+  }
+};
+
+const graph: Command = async ([workflowId], context) => {
+  if (!workflowId) {
+    throw new UsageError("graph expects a Workflow name");
+  }
+  const format =
+    context.flags.format ?? (context.output === "json" ? "json" : "layers");
+  if (!GRAPH_FORMATS.includes(format)) {
+    throw new UsageError(
+      `Unknown graph format "${format}", expected one of ${GRAPH_FORMATS.join(
+        ", "
+      )}`
+    );
+  }
+  const { instance, expanded } = context.flags;
+  const inflated = instance
+    ? await getInflatedWorkflowInstanceGraph(
+        context.namespace,
+        workflowId,
+        instance,
+        expanded,
+        context.client
+      )
+    : await getInflatedWorkflowGraph(
+        context.namespace,
+        workflowId,
+        expanded,
+        context.client
+      );
+
+  // Without the Workflow, or the instance when one is asked for, there's
+  // nothing worth drawing.
+  const errors = inflated.errors ?? [];
+  const workflowNode = inflated.nodes.find(
+    (node) =>
+      node.type.name === "Workflow" &&
+      typeof node.metadata?.nestingDepth !== "number"
+  );
+  if (!workflowNode) {
+    throw graphFailure(errors, "Workflow", workflowId, context.namespace);
+  }
+  if (
+    instance &&
+    !inflated.edges.some((edge) => edge.type === "ParentToWorkflow")
+  ) {
+    const kind = (workflowNode.krm as Workflow).spec.crdRef?.kind ?? "Parent";
+    throw graphFailure(errors, kind, instance, context.namespace);
+  }
+
+  const rendered = formatGraph(inflated, format, context);
+  errors.forEach((error) => context.warn(error.message));
+  if (errors.length > 0) {
+    throw new IncompleteError(
+      `The graph of Workflow ${context.namespace}/${workflowId} is incomplete`,
+      rendered
+    );
+  }
+  return rendered;
+};
+
+const formatGraph = (
+  inflated: InflatedGraph,
+  format: string,
+  context: CommandContext
+): string => {
+  switch (format) {
+    case "dot":
+      return graphToDot(inflated);
+    case "mermaid":
+      return graphToMermaid(inflated);
+    case "cytoscape":
+      return formatJson(graphToCytoscape(inflated));
+    case "graphml":
+      return graphToGraphML(inflated);
+    case "json":
+      return formatJson(inflated);
+    default:
+      return renderGraph(inflated, {
+        layout: format === "tree" ? "tree" : "layers",
+        color: context.color,
+        width: context.width,
+      });
+  }
+};
+
+// graphFailure explains why an object at the top of a graph is missing, using
+// the error recorded when it was fetched.
+const graphFailure = (
+  errors: GraphError[],
+  kind: string,
+  name: string,
+  namespace: string
+): Error => {
+  const error = errors.find(
+    (error) => error.kind === kind && error.name === name && !error.stepLabel
+  );
+  return new Error(error?.message ?? `${kind} ${namespace}/${name} not found`);
+};
+
+const inspect: Command = async ([instanceId], context) => {
+  const { workflow, instance } = await findInstance(instanceId, context);
+  warnInvalid(context, instance);
+  const workflowId = workflow.metadata!.name!;
+  const instanceGraph = await getWorkflowGraph(
+    context.namespace,
+    workflowId,
+    instanceId,
+    context.client
+  );
+  const health = getGraphHealth(instanceGraph);
+  const stepNodes = new Map(
+    instanceGraph.nodes.map((node) => [stepLabel(node), node])
+  );
+  const steps = (workflow.spec.steps ?? []).map((step) => {
+    const node = stepNodes.get(step.label);
+    const unknown: Health = { status: "Unknown" };
+    return {
+      label: step.label,
+      type: node?.type ?? "",
+      health: (node && health.nodes[node.id]) ?? unknown,
+      condition: node?.metadata?.condition as StepCondition | undefined,
+    };
+  });
+  const managedResources = parseManagedResources(instance);
+  const conditions = instance.status?.conditions ?? [];
+
+  return output(
+    context,
+    {
+      instance,
+      workflow: workflowId,
+      health: { status: health.status, message: health.message },
+      steps,
+    },
+    () =>
+      [
+        formatFields([
+          ["Name", instance.metadata?.name ?? ""],
+          ["Namespace", instance.metadata?.namespace ?? ""],
+          ["Kind", `${instance.kind} (${instance.apiVersion})`],
+          ["Workflow", workflowId],
+          ["Health", formatHealth(health)],
+          ["Resources", `${countManagedResources(managedResources)}`],
+        ]),
+        "",
+        "Conditions:",
+        conditions.length > 0
+          ? formatTable(
+              ["type", "status", "reason", "message"],
+              conditions.map((condition) => [
+                condition.type,
+                condition.status,
+                condition.reason ?? "",
+                condition.message ?? "",
+              ])
+            )
+          : "<none>",
+        "",
+        "Steps:",
+        steps.length > 0
+          ? formatTable(
+              ["step", "type", "health", "condition"],
+              steps.map((step) => [
+                step.label,
+                step.type,
+                formatHealth(step.health),
+                step.condition?.status
+                  ? `${step.condition.type}=${step.condition.status}`
+                  : "",
+              ])
+            )
+          : "<none>",
+      ].join("\n")
+  );
+};
+
+const resources: Command = async ([instanceId], context) => {
+  const { instance } = await findInstance(instanceId, context);
+  warnInvalid(context, instance);
+  const managedResources = collectManagedResources(
+    parseManagedResources(instance)
+  );
+  return output(context, managedResources, () =>
+    formatTable(
+      ["kind", "apiVersion", "namespace", "name", "readonly", "function"],
+      managedResources.map((resource) => [
+        resource.kind,
+        resource.apiVersion,
+        resource.namespace ?? "",
+        resource.name,
+        `${resource.readonly}`,
+        resource.resourceFunction,
+      ])
+    )
+  );
+};
+
+export const COMMANDS: Record<string, Command> = {
+  list,
+  graph,
+  inspect,
+  resources,
+};
+
+// findInstance finds a Workflow instance by name. Unless --workflow names
+// its Workflow, every Workflow in the namespace is searched and the name
+// must be unambiguous.
+const findInstance = async (
+  instanceId: string | undefined,
+  context: CommandContext
+): Promise<{ workflow: Workflow; instance: WorkflowParent }> => {
+  if (!instanceId) {
+    throw new UsageError("Expected the name of a Workflow instance");
+  }
+  const { namespace, client } = context;
+  const workflowId = context.flags.workflow;
+  let workflows: Workflow[];
+  if (workflowId) {
+    const workflow = await getWorkflow(workflowId, namespace, client);
+    if (!workflow) {
+      throw new Error(`Workflow ${namespace}/${workflowId} not found`);
+    }
+    workflows = [workflow];
+  } else {
+    workflows = await listWorkflows(namespace, client, listOptions(context));
+  }
+
+  const matches = (
+    await Promise.all(
+      workflows.map(async (workflow) => {
+        const instance = await getWorkflowInstance(
+          workflow,
+          instanceId,
+          client
+        );
+        return instance ? [{ workflow, instance }] : [];
+      })
+    )
+  ).flat();
+  if (matches.length === 0) {
+    throw new Error(
+      `No instance named ${namespace}/${instanceId} found${
+        workflowId ? ` for Workflow ${workflowId}` : ""
+      }`
+    );
+  }
+  if (matches.length > 1) {
+    throw new UsageError(
+      `${namespace}/${instanceId} is an instance of several Workflows (${matches
+        .map(({ workflow }) => workflow.metadata?.name)
+        .join(", ")}), pick one with --workflow`
+    );
+  }
+  return matches[0];
+};
+
+const listOptions = (context: CommandContext): ListOptions => ({
+  onInvalid: (err) => context.warn(err.message),
+});
+
+// Resource counts and lists leave out the invalid entries of an instance's
+// managed-resources annotation, so say which ones.
+const warnInvalid = (context: CommandContext, instance: WorkflowParent) => {
+  const error = getManagedResourcesError(instance);
+  if (error) {
+    context.warn(error.message);
+  }
+};
+
+const output = (
+  context: CommandContext,
+  value: unknown,
+  format: () => string
+): string => {
+  return context.output === "json" ? formatJson(value) : format();
+};
+
+// A SubWorkflow node's step label is on its nested Workflow node.
+const stepLabel = (node: KNode): string | undefined => {
+  const metadata =
+    node.type === "SubWorkflow"
+      ? node.workflowGraph.nodes[0]?.metadata
+      : node.metadata;
+  return typeof metadata?.label === "string" ? metadata.label : undefined;
+};
+
+const formatHealth = (health: Health): string => {
+  return health.message
+    ? `${health.status} (${health.message})`
+    : health.status;
+};
@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import { KubeConfig } from "@kubernetes/client-node";
+import { createKoreoClient } from "../api/kubernetes.js";
+import { createManifestClient } from "../api/manifests.js";
+import {
+  COMMANDS,
+  CommandContext,
+  IncompleteError,
+  UsageError,
+} from "./commands.js";
+
+const USAGE = `Usage: koreo-ts <command> [arguments] [flags]
+
+Commands:
+  list workflows|functions|templates   List Koreo objects
+  list instances [workflow]            List Workflow instances
+  graph <workflow>                     Show a Workflow's graph
+  inspect <instance>                   Show a Workflow instance's status
+  resources <instance>                 List the resources an instance manages
+
+Flags:
+      --kubeconfig <path>   Path to the kubeconfig file
+      --context <name>      The kubeconfig context to use
+  -f, --filename <path>     Read Koreo objects from manifest files or
+                            directories instead of a cluster, repeatable
+  -n, --namespace <name>    The namespace to use, defaults to the context's
+                            or "default"
+  -A, --all-namespaces      List across all namespaces
+  -o, --output <format>     table or json, defaults to table
+  -w, --workflow <name>     The Workflow of the instance to inspect
+      --instance <name>     Graph a Workflow instance, with its health
+      --expanded            Expand sub-workflows in the graph
+      --format <format>     layers, tree, dot, mermaid, cytoscape, graphml or
+                            json, defaults to layers
+      --color <when>        auto, always or never, defaults to auto
+  -h, --help                Show this help`;
+
+// main runs the CLI and returns its exit code: 1 for failures and 2 for
+// invalid usage.
+const main = async (argv: string[]): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        kubeconfig: { type: "string" },
+        context: { type: "string" },
+        filename: { type: "string", short: "f", multiple: true },
+        namespace: { type: "string", short: "n" },
+        "all-namespaces": { type: "boolean", short: "A" },
+        output: { type: "string", short: "o" },
+        workflow: { type: "string", short: "w" },
+        instance: { type: "string" },
+        expanded: { type: "boolean" },
+        format: { type: "string" },
+        color: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    return usageError(err instanceof Error ? err.message : `${err}`);
+  }
+  const { values, positionals } = parsed;
+  const [commandName, ...args] = positionals;
+  if (values.help || !commandName) {
+    process.stdout.write(`${USAGE}\n`);
+    return values.help ? 0 : 2;
+  }
+  const command = COMMANDS[commandName];
+  if (!command) {
+    return usageError(`Unknown command "${commandName}"`);
+  }
+  const output = values.output ?? "table";
+  if (output !== "table" && output !== "json") {
+    return usageError(`Unknown output "${output}", expected table or json`);
+  }
+  const color = values.color ?? "auto";
+  if (!["auto", "always", "never"].includes(color)) {
+    return usageError(
+      `Unknown color "${color}", expected auto, always or never`
+    );
+  }
+
+  try {
+    let client;
+    let namespace = values.namespace;
+    if (values.filename) {
+      namespace ??= "default";
+      client = await createManifestClient(values.filename, { namespace });
+    } else {
+      const kubeConfig = new KubeConfig();
+      if (values.kubeconfig) {
+        kubeConfig.loadFromFile(values.kubeconfig);
+      } else {
+        kubeConfig.loadFromDefault();
+      }
+      if (values.context) {
+        kubeConfig.setCurrentContext(values.context);
+      }
+      namespace ??=
+        kubeConfig.getContextObject(kubeConfig.getCurrentContext())
+          ?.namespace ?? "default";
+      client = createKoreoClient({ kubeConfig });
+    }
+    const context: CommandContext = {
+      client,
+      namespace,
+      allNamespaces: values["all-namespaces"] ?? false,
+      output,
+      color:
+        color === "always" ||
+        (color === "auto" && !!process.stdout.isTTY && !process.env.NO_COLOR),
+      width: process.stdout.columns ?? 80,
+      warn: (message) => process.stderr.write(`warning: ${message}\n`),
+      flags: {
+        workflow: values.workflow,
+        instance: values.instance,
+        expanded: values.expanded,
+        format: values.format,
+      },
+    };
+    process.stdout.write(`${await command(args, context)}\n`);
+    return 0;
+  } catch (err) {
+    if (err instanceof UsageError) {
+      return usageError(err.message);
+    }
+    if (err instanceof IncompleteError) {
+      process.stdout.write(`${err.output}\n`);
+    }
+    process.stderr.write(
+      `error: ${err instanceof Error ? err.message : err}\n`
+    );
+    return 1;
+  }
+};
+
+const usageError = (message: string): number => {
+  process.stderr.write(`error: ${message}\n\n${USAGE}\n`);
+  return 2;
+};
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,28 @@
+// formatTable lays out rows in left-aligned columns under upper-case
+// headers, in the style of kubectl.
+export const formatTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? "").length))
+  );
+  return [headers.map((header) => header.toUpperCase()), ...rows]
+    .map((row) =>
+      row
+        .map((cell, i) => (cell ?? "").padEnd(widths[i]))
+        .join("   ")
+        .trimEnd()
+    )
+    .join("\n");
+};
+
+// formatFields lays out labelled values one per line with the values
+// aligned.
+export const formatFields = (fields: [string, string][]): string => {
+  const width = Math.max(...fields.map(([label]) => label.length)) + 1;
+  return fields
+    .map(([label, value]) => `${`${label}:`.padEnd(width)}  ${value}`)
+    .join("\n");
+};
+
+export const formatJson = (value: unknown): string => {
+  return JSON.stringify(value, null, 2);
+};
@@ -1,13 +1,51 @@
-export * from "./types/function";
-export * from "./types/managed-resource";
-export * from "./types/resource-template";
-export * from "./types/workflow";
-export * from "./types/kubernetes";
-export * from "./types/graph";
+export * from "./types/function.js";
+export * from "./types/managed-resource.js";
+export * from "./types/resource-managers.js";
+export * from "./types/usages.js";
+export * from "./types/resource-template.js";
+export * from "./types/workflow.js";
+export * from "./types/kubernetes.js";
+export * from "./types/graph.js";
+export * from "./types/graph-diff.js";
+export * from "./types/graph-analytics.js";
+export * from "./types/graph-export.js";
+export * from "./types/graph-render.js";
+export * from "./types/health.js";
+export * from "./types/client.js";
+export * from "./types/errors.js";
+export * from "./types/schema.js";
+export * from "./types/listing.js";
+export * from "./types/cache.js";
+export * from "./types/workflow-validation.js";
+export * from "./types/expression.js";
+export * from "./types/evaluation.js";
+export * from "./types/workflow-plan.js";
+export * from "./types/manifests.js";
 
-export * from "./api/functions";
-export * from "./api/managed-resources";
-export * from "./api/resource-templates";
-export * from "./api/workflows";
-export * from "./api/graphs";
-export * from "./api/inflated-graphs";
+export * from "./api/errors.js";
+export * from "./api/schemas.js";
+export * from "./api/expressions.js";
+export * from "./api/evaluation.js";
+export * from "./api/kubernetes.js";
+export * from "./api/in-memory-backend.js";
+export * from "./api/manifests.js";
+export * from "./api/discovery.js";
+export * from "./api/listing.js";
+export * from "./api/resource-cache.js";
+export * from "./api/functions.js";
+export * from "./api/function-specs.js";
+export * from "./api/managed-resources.js";
+export * from "./api/resource-managers.js";
+export * from "./api/usages.js";
+export * from "./api/resource-templates.js";
+export * from "./api/workflows.js";
+export * from "./api/health.js";
+export * from "./api/graphs.js";
+export * from "./api/inflated-graphs.js";
+export * from "./api/graph-diff.js";
+export * from "./api/graph-analytics.js";
+export * from "./api/graph-export.js";
+export * from "./api/graph-render.js";
+export * from "./api/graph-subscriptions.js";
+export * from "./api/workflow-validation.js";
+export * from "./api/workflow-plan.js";
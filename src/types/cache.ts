@@ -0,0 +1,39 @@
+import { KoreoObjectKind, KoreoObjectTypes } from "./listing.js";
+
+export type KoreoResourceCacheOptions = {
+  // Defaults to all namespaces.
+  namespaces?: string | string[];
+  // Defaults to Workflows, ValueFunctions, ResourceFunctions and
+  // ResourceTemplates.
+  kinds?: KoreoObjectKind[];
+  labelSelector?: string;
+  // How long to wait before re-listing after a watch fails. Defaults to 1s.
+  relistDelayMs?: number;
+};
+
+export type KoreoResourceCacheEvent = {
+  type: "ADDED" | "MODIFIED" | "DELETED";
+  kind: KoreoObjectKind;
+  object: KoreoObjectTypes[KoreoObjectKind];
+};
+
+export interface KoreoResourceCache {
+  // Lists and starts watching every kind/namespace. Resolves once the initial
+  // lists have been loaded.
+  start(): Promise<void>;
+  stop(): void;
+  isSynced(): boolean;
+  // Returns the cached object, null if the cache is authoritative for the
+  // kind and namespace and the object doesn't exist, or undefined if the
+  // cache can't answer (not synced, not watched or filtered by a selector).
+  get<K extends KoreoObjectKind>(
+    kind: K,
+    namespace: string,
+    name: string
+  ): KoreoObjectTypes[K] | null | undefined;
+  list<K extends KoreoObjectKind>(
+    kind: K,
+    namespace?: string
+  ): KoreoObjectTypes[K][];
+  subscribe(listener: (event: KoreoResourceCacheEvent) => void): () => void;
+}
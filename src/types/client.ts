@@ -0,0 +1,108 @@
+import { KubeConfig, KubernetesObject } from "@kubernetes/client-node";
+import { KoreoResourceCache } from "./cache.js";
+
+export type CustomObjectRequest = {
+  group: string;
+  version: string;
+  plural: string;
+  name: string;
+  namespace?: string;
+};
+
+// An omitted namespace lists across all namespaces.
+export type CustomObjectListRequest = {
+  group: string;
+  version: string;
+  plural: string;
+  namespace?: string;
+  labelSelector?: string;
+  fieldSelector?: string;
+  limit?: number;
+  continue?: string;
+};
+
+export type KubernetesObjectRef = {
+  apiVersion: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+};
+
+export type KubernetesObjectList<T> = {
+  items: T[];
+  metadata?: {
+    continue?: string;
+    resourceVersion?: string;
+  };
+};
+
+// A WatchRequest targets any resource type by plural, e.g. "configmaps" in
+// "v1" or "workflows" in "koreo.dev/v1beta1".
+export type WatchRequest = {
+  apiVersion: string;
+  plural: string;
+  namespace?: string;
+  labelSelector?: string;
+  fieldSelector?: string;
+  resourceVersion?: string;
+};
+
+export type WatchEventType =
+  | "ADDED"
+  | "MODIFIED"
+  | "DELETED"
+  | "BOOKMARK"
+  | "ERROR";
+
+export type WatchEvent<T = unknown> = {
+  type: WatchEventType;
+  object: T;
+};
+
+export type WatchHandle = {
+  stop: () => void;
+};
+
+export type DiscoveredResource = {
+  kind: string;
+  plural: string;
+  namespaced: boolean;
+};
+
+// A KoreoBackend is the minimal set of Kubernetes operations the library
+// needs. Errors are expected to carry an HTTP status `code` like the client's
+// ApiException.
+export interface KoreoBackend {
+  getCustomObject<T = unknown>(request: CustomObjectRequest): Promise<T>;
+  listCustomObjects<T = unknown>(
+    request: CustomObjectListRequest
+  ): Promise<KubernetesObjectList<T>>;
+  readObject<T extends KubernetesObject = KubernetesObject>(
+    ref: KubernetesObjectRef
+  ): Promise<T>;
+  // Streams changes until stopped. onDone is called once when the watch ends
+  // for any reason other than stop, with the error if there was one.
+  watchObjects<T = unknown>(
+    request: WatchRequest,
+    onEvent: (event: WatchEvent<T>) => void,
+    onDone: (err?: unknown) => void
+  ): Promise<WatchHandle>;
+  // Resolves the plural and scope of a kind, or null if the API version
+  // doesn't serve the kind.
+  discoverResource(
+    apiVersion: string,
+    kind: string
+  ): Promise<DiscoveredResource | null>;
+}
+
+export type KoreoClient = {
+  backend: KoreoBackend;
+  // When set, Koreo object fetchers read from the cache instead of the API.
+  cache?: KoreoResourceCache;
+};
+
+export type KoreoClientOptions = {
+  kubeConfig?: KubeConfig;
+  context?: string;
+  backend?: KoreoBackend;
+};
@@ -0,0 +1,13 @@
+export type KoreoErrorReason =
+  | "NotFound"
+  | "Unauthorized"
+  | "Forbidden"
+  | "Unavailable"
+  | "InvalidResource"
+  | "Unknown";
+
+export type KoreoErrorResource = {
+  kind: string;
+  name?: string;
+  namespace?: string;
+};
@@ -0,0 +1,42 @@
+import { FunctionConditionOutcomeType } from "./function.js";
+
+export type FunctionEvaluationResult<T> =
+  | { type: "Ok"; value: T }
+  | FunctionPreconditionFailure
+  | FunctionEvaluationFailure;
+
+export type ValueFunctionResult = FunctionEvaluationResult<unknown>;
+
+export type ResourceTargetResult = FunctionEvaluationResult<ResourceTarget>;
+
+// A precondition's assert evaluated to false. value is set for the
+// defaultReturn outcome, message and delay for the others.
+export type FunctionPreconditionFailure = {
+  type: "PreconditionFailed";
+  outcome: FunctionConditionOutcomeType;
+  index: number;
+  assert: string;
+  message?: string;
+  delay?: number;
+  value?: unknown;
+};
+
+// An expression could not be parsed or evaluated. path locates the field in
+// the function, e.g. "spec.locals.name" or "spec.preconditions[0].assert".
+export type FunctionEvaluationFailure = {
+  type: "EvaluationError";
+  message: string;
+  path: string;
+  expression?: string;
+};
+
+// The resource a ResourceFunction manages, from its evaluated apiConfig.
+export type ResourceTarget = {
+  apiVersion: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  plural?: string;
+  owned: boolean;
+  readonly: boolean;
+};
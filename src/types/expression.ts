@@ -0,0 +1,118 @@
+// The AST for Koreo's "="-prefixed CEL expressions. start and end are offsets
+// into the expression text (without the "=").
+export type ExpressionNode =
+  | LiteralNode
+  | IdentifierNode
+  | MemberNode
+  | IndexNode
+  | CallNode
+  | UnaryNode
+  | BinaryNode
+  | ConditionalNode
+  | ListNode
+  | MapNode;
+
+type Position = {
+  start: number;
+  end: number;
+};
+
+export type LiteralKind =
+  | "int"
+  | "uint"
+  | "double"
+  | "string"
+  | "bytes"
+  | "bool"
+  | "null";
+
+// Bytes literals are represented by their decoded string.
+export type LiteralNode = Position & {
+  type: "Literal";
+  kind: LiteralKind;
+  value: string | number | boolean | null;
+};
+
+export type IdentifierNode = Position & {
+  type: "Identifier";
+  name: string;
+};
+
+// object.property
+export type MemberNode = Position & {
+  type: "Member";
+  object: ExpressionNode;
+  property: string;
+};
+
+// object[index]
+export type IndexNode = Position & {
+  type: "Index";
+  object: ExpressionNode;
+  index: ExpressionNode;
+};
+
+// name(args) or, for method-style calls and macros, target.name(args).
+export type CallNode = Position & {
+  type: "Call";
+  target?: ExpressionNode;
+  name: string;
+  args: ExpressionNode[];
+};
+
+export type UnaryOperator = "!" | "-";
+
+export type UnaryNode = Position & {
+  type: "Unary";
+  operator: UnaryOperator;
+  operand: ExpressionNode;
+};
+
+export type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "in"
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%";
+
+export type BinaryNode = Position & {
+  type: "Binary";
+  operator: BinaryOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+};
+
+// test ? consequent : alternate
+export type ConditionalNode = Position & {
+  type: "Conditional";
+  test: ExpressionNode;
+  consequent: ExpressionNode;
+  alternate: ExpressionNode;
+};
+
+export type ListNode = Position & {
+  type: "List";
+  elements: ExpressionNode[];
+};
+
+export type MapNode = Position & {
+  type: "Map";
+  entries: { key: ExpressionNode; value: ExpressionNode }[];
+};
+
+// A reference to a variable, e.g. `steps['my-step'].name` is
+// { root: "steps", path: ["my-step", "name"] }. The path stops at the first
+// key that isn't a literal.
+export type ExpressionReference = {
+  root: string;
+  path: string[];
+};
@@ -1,21 +1,37 @@
-import { KubernetesObjectWithSpecAndStatus } from "./kubernetes";
+import { KubernetesObjectWithSpecAndStatus } from "./kubernetes.js";
 
 export type Function = ResourceFunction | ValueFunction;
 
 export interface ValueFunction extends KubernetesObjectWithSpecAndStatus {
+  kind: "ValueFunction";
   spec: ValueFunctionSpec;
 }
 
 export type ValueFunctionSpec = {
+  preconditions?: FunctionCondition[];
+  locals?: Record<string, any>;
   return?: Record<string, any>;
 };
 
 export interface ResourceFunction extends KubernetesObjectWithSpecAndStatus {
+  kind: "ResourceFunction";
   spec: ResourceFunctionSpec;
 }
 
+// A ResourceFunction defines its resource either inline with `resource` or by
+// referencing a ResourceTemplate with `resourceTemplateRef`.
 export type ResourceFunctionSpec = {
+  preconditions?: FunctionCondition[];
+  locals?: Record<string, any>;
   apiConfig: APIConfig;
+  resource?: Record<string, any>;
+  resourceTemplateRef?: ResourceTemplateRef;
+  overlays?: Overlay[];
+  create?: CreateBehavior;
+  update?: UpdateBehavior;
+  delete?: DeleteBehavior;
+  postconditions?: FunctionCondition[];
+  return?: Record<string, any>;
 };
 
 export type APIConfig = {
@@ -27,4 +43,69 @@ export type APIConfig = {
   owned?: boolean;
   plural?: string;
   readonly?: boolean;
+  deleteIfExists?: boolean;
+};
+
+// The name may be an expression, e.g. "=inputs.templateName".
+export type ResourceTemplateRef = {
+  name: string;
+};
+
+// A FunctionCondition asserts an expression and, if it doesn't hold, ends
+// the function with exactly one of the outcomes.
+export type FunctionCondition = {
+  assert: string;
+} & FunctionConditionOutcome;
+
+export type FunctionConditionOutcome =
+  | { defaultReturn: Record<string, any> }
+  | { skip: OutcomeMessage }
+  | { depSkip: OutcomeMessage }
+  | { retry: OutcomeMessage & { delay: number } }
+  | { permFail: OutcomeMessage };
+
+export type FunctionConditionOutcomeType =
+  | "defaultReturn"
+  | "skip"
+  | "depSkip"
+  | "retry"
+  | "permFail";
+
+export type OutcomeMessage = {
+  message: string;
+};
+
+export type Overlay = InlineOverlay | OverlayRef;
+
+export type InlineOverlay = {
+  overlay: Record<string, any>;
+  skipIf?: string;
+};
+
+export type OverlayRef = {
+  overlayRef: {
+    kind: "ValueFunction";
+    name: string;
+  };
+  inputs?: Record<string, any>;
+  skipIf?: string;
+};
+
+export type CreateBehavior = {
+  enabled?: boolean;
+  delay?: number;
+  overlay?: Record<string, any>;
 };
+
+export type UpdateBehavior =
+  | { patch: { delay?: number } }
+  | { recreate: { delay?: number } }
+  | { never: Record<string, never> };
+
+export type UpdateBehaviorType = "patch" | "recreate" | "never";
+
+export type DeleteBehavior =
+  | { abandon: Record<string, never> }
+  | { destroy: Record<string, never> };
+
+export type DeleteBehaviorType = "abandon" | "destroy";
@@ -0,0 +1,32 @@
+export type NodeAnalytics = {
+  id: string;
+  // The length of the longest chain of dependencies leading to the node.
+  // Unset for nodes on a cycle.
+  level?: number;
+  fanIn: number;
+  fanOut: number;
+  // The number of sub-workflows the node is nested in.
+  nestingDepth: number;
+};
+
+export type GraphAnalytics = {
+  // Step node ids in dependency order. Ties keep the order of graph.nodes.
+  order: string[];
+  // Step node ids grouped by level. Steps in the same level don't depend on
+  // each other and could run in parallel.
+  levels: string[][];
+  // The longest chain of dependencies between steps, from a root to a leaf.
+  criticalPath: string[];
+  nodes: Record<string, NodeAnalytics>;
+  // The deepest level of sub-workflow nesting, 0 if there are none.
+  maxNestingDepth: number;
+  // Step nodes on a dependency cycle. They have no order or level.
+  cyclic: string[];
+};
+
+export type GraphLevels = {
+  // Node ids grouped by dependency level.
+  levels: string[][];
+  // Nodes on a dependency cycle, which have no level.
+  cyclic: string[];
+};
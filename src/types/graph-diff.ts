@@ -0,0 +1,44 @@
+import { KEdge } from "./graph.js";
+
+export type NodeField =
+  | "type"
+  | "label"
+  | "spec"
+  | "status"
+  | "metadata"
+  | "switchOn"
+  | "cases"
+  | "cycle"
+  | "managedResources"
+  | "resourceStatus";
+
+// For "managedResources" before/after are the sorted resource keys
+// ("apiVersion/kind/namespace/name"). For "resourceStatus" they map the keys
+// of resources present in both graphs to their differing statuses.
+export type NodeFieldChange = {
+  field: NodeField;
+  before: unknown;
+  after: unknown;
+};
+
+export type NodeDiff<N> = {
+  id: string;
+  before: N;
+  after: N;
+  changes: NodeFieldChange[];
+};
+
+export type EdgeDiff = {
+  id: string;
+  before: KEdge;
+  after: KEdge;
+};
+
+export type GraphDiff<N> = {
+  addedNodes: N[];
+  removedNodes: N[];
+  modifiedNodes: NodeDiff<N>[];
+  addedEdges: KEdge[];
+  removedEdges: KEdge[];
+  modifiedEdges: EdgeDiff[];
+};
@@ -0,0 +1,36 @@
+export type GraphExportOptions = {
+  // The layout direction for DOT and Mermaid, left to right or top to bottom.
+  // Defaults to "LR".
+  direction?: "LR" | "TB";
+};
+
+// Node and edge data for Cytoscape.js. Sub-workflows become compound nodes
+// of type "Cluster" that their nodes name as parent.
+export type CytoscapeNodeData = {
+  id: string;
+  label: string;
+  type: string;
+  isKoreoType: boolean;
+  managedResource: boolean;
+  readonly?: boolean;
+  parent?: string;
+};
+
+export type CytoscapeEdgeData = {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+};
+
+export type CytoscapeElement<T> = {
+  data: T;
+  classes: string;
+};
+
+export type CytoscapeGraph = {
+  elements: {
+    nodes: CytoscapeElement<CytoscapeNodeData>[];
+    edges: CytoscapeElement<CytoscapeEdgeData>[];
+  };
+};
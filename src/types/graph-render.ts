@@ -0,0 +1,14 @@
+export type GraphRenderOptions = {
+  // "layers" draws a box for each node, one row per dependency level, and
+  // "tree" indents each node under the nodes that depend on it. Defaults to
+  // "layers".
+  layout?: "layers" | "tree";
+  // Defaults to "unicode". Use "ascii" for terminals without box-drawing
+  // characters.
+  charset?: "unicode" | "ascii";
+  // Colour nodes by type and health status with ANSI escapes. Defaults to
+  // false.
+  color?: boolean;
+  // The number of columns to fit the output to. Defaults to 80.
+  width?: number;
+};
@@ -1,7 +1,9 @@
-import { KubernetesObjectWithSpecAndStatus } from "./kubernetes";
-import { ValueFunction, ResourceFunction } from "./function";
-import { WorkflowParent, Workflow } from "./workflow";
-import { KubernetesResource } from "./managed-resource";
+import { KubernetesObjectWithSpecAndStatus } from "./kubernetes.js";
+import { ValueFunction, ResourceFunction } from "./function.js";
+import { WorkflowParent, Workflow } from "./workflow.js";
+import { KubernetesResource } from "./managed-resource.js";
+import { ResourceTemplate } from "./resource-template.js";
+import { KoreoErrorReason } from "./errors.js";
 
 export type KoreoType = {
   isKoreoType: true;
@@ -11,7 +13,9 @@ export type KoreoType = {
     | "RefSwitch"
     | "RefSwitchResult"
     | "ResourceFunction"
-    | "ValueFunction";
+    | "ValueFunction"
+    | "ResourceTemplate"
+    | "WorkflowCycle";
 };
 
 export type NonKoreoType = {
@@ -30,6 +34,38 @@ export type InflatedNode = {
 export type InflatedGraph = {
   nodes: InflatedNode[];
   edges: KEdge[];
+  errors?: GraphError[];
+};
+
+export type GraphChange =
+  | { type: "NodeAdded"; node: InflatedNode }
+  | { type: "NodeRemoved"; node: InflatedNode }
+  | { type: "NodeChanged"; node: InflatedNode; previous: InflatedNode }
+  | { type: "EdgeAdded"; edge: KEdge }
+  | { type: "EdgeRemoved"; edge: KEdge };
+
+export type InflatedGraphUpdate = {
+  graph: InflatedGraph;
+  changes: GraphChange[];
+};
+
+export type GraphBuildOptions = {
+  // The maximum number of API requests in flight while building a graph.
+  // Defaults to 8.
+  concurrency?: number;
+  // Resolve the ResourceTemplates referenced by ResourceFunctions and add them
+  // as nodes linked from the steps that use them. Defaults to false.
+  resourceTemplates?: boolean;
+};
+
+export type WorkflowInstanceGraphSubscriptionOptions = GraphBuildOptions & {
+  expanded?: boolean;
+  // Called with errors that occur after the subscription has started, e.g. a
+  // failed rebuild. The subscription keeps running.
+  onError?: (err: Error) => void;
+  // How long to wait before re-establishing a watch that ended. Defaults to
+  // 1s.
+  retryDelayMs?: number;
 };
 
 export type NodeType =
@@ -38,20 +74,26 @@ export type NodeType =
   | "ValueFunction"
   | "ResourceFunction"
   | "RefSwitch"
-  | "SubWorkflow";
+  | "SubWorkflow"
+  | "ResourceTemplate"
+  | "WorkflowCycle";
 
 export type EdgeType =
   | "ParentToWorkflow"
   | "WorkflowToStep"
   | "StepToStep"
-  | "StepToResource";
+  | "StepToResource"
+  | "CycleToWorkflow"
+  | "FunctionToTemplate";
 
 export type KNode =
   | WorkflowNode
   | FunctionNode
   | SubWorkflowNode
   | RefSwitchNode
-  | ParentNode;
+  | ParentNode
+  | ResourceTemplateNode
+  | WorkflowCycleNode;
 
 export type KEdge = {
   id: string;
@@ -65,9 +107,21 @@ export type Graph = {
   nodes: KNode[];
   edges: KEdge[];
   managedResources?: ManagedKubernetesResource[];
+  errors?: GraphError[];
+};
+
+// GraphError records an object that could not be fetched or used while
+// building a graph, e.g. a step referencing a missing function.
+export type GraphError = {
+  reason: KoreoErrorReason;
+  message: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  stepLabel?: string;
 };
 
-export type LogicNode = FunctionNode | SubWorkflowNode;
+export type LogicNode = FunctionNode | SubWorkflowNode | WorkflowCycleNode;
 
 export type FunctionNode = ValueFunctionNode | ResourceFunctionNode;
 
@@ -100,7 +154,7 @@ export type RefSwitchNode = {
   id: string;
   type: "RefSwitch";
   switchOn: string;
-  caseNodes: Record<string, FunctionNode | SubWorkflowNode>;
+  caseNodes: Record<string, LogicNode>;
   dependents: Record<string, KNode>;
   managedResources?: ManagedKubernetesResource[];
   metadata?: Record<string, unknown>;
@@ -115,6 +169,28 @@ export type SubWorkflowNode = {
   metadata?: Record<string, unknown>;
 };
 
+export type ResourceTemplateNode = {
+  id: string;
+  type: "ResourceTemplate";
+  krm: ResourceTemplate;
+  dependents: Record<string, KNode>;
+  metadata?: Record<string, unknown>;
+};
+
+// A WorkflowCycleNode stands in for a sub-workflow step that would recurse
+// into one of its own ancestors. targetNodeId is the id of the ancestor's
+// Workflow node and cycle lists the Workflow names from that ancestor back to
+// itself, e.g. ["a", "b", "a"].
+export type WorkflowCycleNode = {
+  id: string;
+  type: "WorkflowCycle";
+  workflowId: string;
+  targetNodeId: string;
+  cycle: string[];
+  dependents: Record<string, KNode>;
+  metadata?: Record<string, unknown>;
+};
+
 export type ParentNode = {
   id: string;
   type: "Parent";
@@ -123,6 +199,18 @@ export type ParentNode = {
   metadata?: Record<string, unknown>;
 };
 
+// The condition a step reports onto its parent, matched by type against the
+// parent's status.conditions. Only type and name are set until the parent
+// reports the condition.
+export type StepCondition = {
+  type: string;
+  name: string;
+  status?: string;
+  reason?: string;
+  message?: string;
+  lastTransitionTime?: string;
+};
+
 export type ManagedKubernetesResource = {
   definition: KubernetesResource;
   resource: KubernetesObjectWithSpecAndStatus | null;
@@ -0,0 +1,24 @@
+// - Healthy: the object exists and reports that it's ready.
+// - Progressing: the object is still being reconciled.
+// - Degraded: the object reports a failure.
+// - Unknown: there's nothing to go on, e.g. a ValueFunction.
+// - Missing: the object should exist but doesn't.
+export type HealthStatus =
+  | "Healthy"
+  | "Progressing"
+  | "Degraded"
+  | "Unknown"
+  | "Missing";
+
+export type Health = {
+  status: HealthStatus;
+  message?: string;
+};
+
+export type GraphHealth = {
+  // The overall health of the Workflow instance.
+  status: HealthStatus;
+  message?: string;
+  // Health by node id, including nodes nested in sub-workflows.
+  nodes: Record<string, Health>;
+};
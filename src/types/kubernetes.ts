@@ -1,4 +1,4 @@
-import { KubernetesObject } from "@kubernetes/client-node/dist/types";
+import { KubernetesObject } from "@kubernetes/client-node";
 
 export type KubernetesTerminalCondition = {
   lastTransitionTime: string;
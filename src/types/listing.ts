@@ -0,0 +1,30 @@
+import { Workflow } from "./workflow.js";
+import { ValueFunction, ResourceFunction } from "./function.js";
+import { ResourceTemplate } from "./resource-template.js";
+
+export type ListOptions = {
+  labelSelector?: string;
+  fieldSelector?: string;
+  // Page size used when fetching from the API server.
+  limit?: number;
+  // Continue token from a previous ListPage. Only allowed when listing a
+  // single namespace (or all namespaces) of a single kind.
+  continue?: string;
+  // Called with an InvalidResource KoreoError for each listed object that
+  // fails schema validation. Such objects are left out of the results.
+  onInvalid?: (err: Error) => void;
+};
+
+export type ListPage<T> = {
+  items: T[];
+  continue?: string;
+};
+
+export type KoreoObjectTypes = {
+  Workflow: Workflow;
+  ValueFunction: ValueFunction;
+  ResourceFunction: ResourceFunction;
+  ResourceTemplate: ResourceTemplate;
+};
+
+export type KoreoObjectKind = keyof KoreoObjectTypes;
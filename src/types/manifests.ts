@@ -0,0 +1,7 @@
+export type ManifestLoadOptions = {
+  // The namespace for manifests that don't set one, as `kubectl apply -n`
+  // would. Defaults to "default".
+  namespace?: string;
+  // Whether to descend into subdirectories. Defaults to true.
+  recursive?: boolean;
+};
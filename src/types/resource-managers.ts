@@ -0,0 +1,43 @@
+import { KubernetesResource } from "./managed-resource.js";
+import { Workflow, WorkflowParent } from "./workflow.js";
+
+// A ManagedResourceStep is one level of the path from a parent's Workflow to
+// the step that manages a resource.
+export type ManagedResourceStep = {
+  // The name of the Workflow the step belongs to.
+  workflow: string;
+  label: string;
+  // Set when the step is a forEach, to the item that manages the resource.
+  forEachIndex?: number;
+};
+
+export type ResourceManager = {
+  parent: WorkflowParent;
+  workflow: Workflow;
+  // Outermost step first. Every step but the last is a sub-workflow step.
+  stepPath: ManagedResourceStep[];
+  // The name of the ResourceFunction that manages the resource.
+  resourceFunction: string;
+  // The resource as recorded in the managed-resources annotation.
+  resource: KubernetesResource;
+};
+
+// A ManagedResourceIndex maps every resource recorded in the scanned parents'
+// managed-resources annotations to its managers. It is a snapshot and isn't
+// updated as parents change.
+export type ManagedResourceIndex = {
+  managers: Map<string, ResourceManager[]>;
+};
+
+export type FindManagersOptions = {
+  // The namespaces whose Workflows and parents are scanned. Defaults to all
+  // namespaces. Ignored when an index is given.
+  namespaces?: string | string[];
+  // Look the resource up in a prebuilt index instead of scanning parents.
+  index?: ManagedResourceIndex;
+  // Called with an InvalidResource KoreoError for each Workflow that fails
+  // validation and is skipped, and for each parent whose managed-resources
+  // annotation has invalid entries, which are ignored. Ignored when an index
+  // is given.
+  onInvalid?: (err: Error) => void;
+};
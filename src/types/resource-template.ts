@@ -1,4 +1,4 @@
-import { KubernetesObjectWithSpecAndStatus } from "./kubernetes";
+import { KubernetesObjectWithSpecAndStatus } from "./kubernetes.js";
 
 export interface ResourceTemplate extends KubernetesObjectWithSpecAndStatus {
   spec: {
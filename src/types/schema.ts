@@ -0,0 +1,6 @@
+export type SchemaIssue = {
+  // Path to the offending field, e.g. "spec.steps[1].ref.kind". Empty for
+  // the object itself.
+  path: string;
+  message: string;
+};
@@ -0,0 +1,34 @@
+import { LogicRef, Workflow } from "./workflow.js";
+
+export type UsageKind = LogicRef["kind"];
+
+// A StepUsage is a step that references a function or Workflow, either
+// directly or through the sub-workflow it runs.
+export type StepUsage = {
+  workflow: Workflow;
+  stepLabel: string;
+  // Path to the reference within the Workflow, e.g. "spec.steps[2].ref" or
+  // "spec.steps[2].refSwitch.cases[1]".
+  path: string;
+  // For a step that runs a sub-workflow using the target, the usage within
+  // that sub-workflow. Unset when the step references the target itself.
+  via?: StepUsage;
+  // Only set when counting instances. The number of the Workflow's live
+  // instances, those parents whose managed-resources annotation names it.
+  // Zero for a Workflow without a crdRef.
+  instances?: number;
+  // Only set when counting instances. The number of resources the target
+  // recorded for the usage in the instances' managed-resources annotations.
+  managedResources?: number;
+};
+
+export type FindUsagesOptions = {
+  // Count the live instances and managed resources touched by each usage.
+  // This lists the instances of every Workflow with a usage.
+  countInstances?: boolean;
+  // Called with an InvalidResource KoreoError for each Workflow that fails
+  // validation and is skipped, and when counting instances, for each
+  // instance whose managed-resources annotation has invalid entries, which
+  // aren't counted.
+  onInvalid?: (err: Error) => void;
+};
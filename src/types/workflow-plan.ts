@@ -0,0 +1,81 @@
+import { ResourceTarget } from "./evaluation.js";
+import { GraphError } from "./graph.js";
+import { LogicRef } from "./workflow.js";
+
+// The parent object a plan is made for. Its namespace defaults to the
+// Workflow's.
+export type WorkflowPlanParent = {
+  metadata?: Record<string, unknown>;
+  spec: unknown;
+};
+
+// What a step would do:
+// - Run: the step would run.
+// - Skip: skipIf holds or a precondition skips it.
+// - DepSkip: a step it depends on is skipped, or a precondition says so.
+// - Retry, PermFail: a precondition would fail the step.
+// - Unknown: it depends on values only known at runtime, e.g. the output of
+//   a ResourceFunction.
+// - Error: the step is invalid or an expression fails.
+export type StepPlanStatus =
+  | "Run"
+  | "Skip"
+  | "DepSkip"
+  | "Retry"
+  | "PermFail"
+  | "Unknown"
+  | "Error";
+
+export type StepPlan = {
+  label: string;
+  // Index into WorkflowPlan.batches.
+  batch: number;
+  dependsOn: string[];
+  status: StepPlanStatus;
+  // Why the step wouldn't run or couldn't be fully planned.
+  message?: string;
+  // The Function or Workflow the step would call, after resolving any
+  // refSwitch.
+  ref?: LogicRef;
+  refSwitch?: RefSwitchPlan;
+  forEach?: ForEachPlan;
+  // The evaluated inputs, if they're known. For forEach steps these don't
+  // include the item.
+  inputs?: Record<string, unknown>;
+  // The resources the step's ResourceFunction would manage, one per
+  // iteration, or those its sub-workflow's steps would manage.
+  resources: ResourceTarget[];
+  // The value a ValueFunction step would return, a list for forEach steps.
+  value?: unknown;
+  // The plans of the sub-workflow a Workflow step would run, one per
+  // iteration.
+  workflows?: SubWorkflowPlan[];
+};
+
+export type SubWorkflowPlan = {
+  batches: string[][];
+  steps: StepPlan[];
+};
+
+export type RefSwitchPlan = {
+  switchOn: string;
+  // The evaluated switchOn and the case it selects, if they're known.
+  value?: unknown;
+  case?: string;
+  default?: boolean;
+};
+
+export type ForEachPlan = {
+  itemIn: string;
+  inputKey: string;
+  iterations?: number;
+};
+
+// Steps are grouped into batches that could run in parallel, in order. A
+// step is in the batch after the last of its dependencies.
+export type WorkflowPlan = SubWorkflowPlan & {
+  namespace: string;
+  workflowId: string;
+  // Errors from building the Workflow's graph, e.g. missing Functions.
+  errors: GraphError[];
+};
@@ -0,0 +1,31 @@
+export type WorkflowIssueCode =
+  | "InvalidStep"
+  | "InvalidExpression"
+  | "MissingReference"
+  // The referenced object exists but couldn't be fetched or is malformed.
+  | "InvalidReference"
+  | "UndefinedStepReference"
+  | "ForwardStepReference"
+  | "DuplicateLabel"
+  | "MissingDefaultCase"
+  | "InputKeyCollision";
+
+export type WorkflowIssueSeverity = "error" | "warning";
+
+export type WorkflowIssue = {
+  code: WorkflowIssueCode;
+  severity: WorkflowIssueSeverity;
+  message: string;
+  stepLabel?: string;
+  // Path to the offending field within the Workflow, e.g.
+  // "spec.steps[1].inputs.name".
+  path: string;
+};
+
+export type WorkflowValidationReport = {
+  namespace: string;
+  workflowId: string;
+  // False if there are any issues with "error" severity.
+  valid: boolean;
+  issues: WorkflowIssue[];
+};
@@ -1,8 +1,8 @@
-import { V1ObjectMeta } from "@kubernetes/client-node/dist/api";
-import { KubernetesObjectWithSpecAndStatus } from "./kubernetes";
+import { V1ObjectMeta } from "@kubernetes/client-node";
+import { KubernetesObjectWithSpecAndStatus } from "./kubernetes.js";
 
 export interface Workflow extends KubernetesObjectWithSpecAndStatus {
-  apiVersion: "koreo.realkinetic.com/v1beta1";
+  apiVersion: "koreo.dev/v1beta1";
   kind: "Workflow";
   spec: WorkflowSpec;
 }
@@ -56,8 +56,8 @@ export type Condition = {
 };
 
 export type WorkflowParentMeta = V1ObjectMeta & {
-  annotations: {
-    "koreo.realkinetic.com/managed-resources": string;
+  annotations?: {
+    "koreo.dev/managed-resources"?: string;
   };
 };
 